@@ -0,0 +1,140 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import React, { ChangeEvent, PureComponent } from 'react';
+import { css } from 'emotion';
+
+import { QueryEditorProps, SelectableValue } from '@grafana/data';
+import { IconButton, InlineFormLabel, Select, TextArea } from '@grafana/ui';
+
+import { DataSource } from '../../data-source';
+import { IgniteDataSourceOptions, IgniteQuery } from '../../types';
+
+/**
+ * Editor Property
+ */
+type Props = QueryEditorProps<DataSource, IgniteQuery, IgniteDataSourceOptions>;
+
+/**
+ * State
+ */
+interface State {
+  /**
+   * The names of the caches of the cluster
+   *
+   * @type {string[]}
+   */
+  cacheNames: string[];
+}
+
+/*
+ * The annotation query editor supports SQL queries whose
+ * columns `time`, `timeEnd`, `title`, `text` and `tags`
+ * describe the annotations.
+ */
+export class AnnotationQueryEditor extends PureComponent<Props, State> {
+  state: State = { cacheNames: [] };
+
+  componentDidMount() {
+    this.loadCacheNames();
+  }
+
+  /**
+   * The cache names are provided by the metadata
+   * cache of the data source
+   */
+  loadCacheNames() {
+    this.props.datasource.listCaches().then(
+      (cacheNames) => this.setState({ cacheNames }),
+      () => this.setState({ cacheNames: [] })
+    );
+  }
+
+  /**
+   * Refresh the cache names
+   */
+  onRefreshCacheNames = () => {
+    this.props.datasource.invalidateMetadata();
+    this.loadCacheNames();
+  };
+
+  /**
+   * Cache name change
+   *
+   * @param {SelectableValue<string>} val Value
+   */
+  onCacheNameChange = (val: SelectableValue<string>) => {
+    this.props.onChange({ ...this.props.query, cacheName: val.value });
+  };
+
+  /**
+   * Query change
+   *
+   * @param {ChangeEvent<HTMLTextAreaElement>} event Event
+   */
+  onQueryChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
+    this.props.onChange({ ...this.props.query, query: event.target.value });
+  };
+
+  /**
+   * The options of the cache picker; the current
+   * value is retained, e.g. a dashboard variable
+   */
+  getCacheNameOptions(cacheName?: string): Array<SelectableValue<string>> {
+    const names = [...this.state.cacheNames];
+    if (cacheName && !names.includes(cacheName)) {
+      names.unshift(cacheName);
+    }
+    return names.map((name) => ({ label: name, value: name }));
+  }
+
+  render() {
+    const { cacheName, query } = this.props.query;
+    return (
+      <div className="gf-form-group">
+        <div className="gf-form">
+          <InlineFormLabel tooltip="Name of the data cache." width={8}>
+            Cache
+          </InlineFormLabel>
+          <Select
+            className={css`
+              margin-right: 5px;
+            `}
+            width={40}
+            options={this.getCacheNameOptions(cacheName)}
+            menuPlacement="bottom"
+            allowCustomValue
+            value={cacheName}
+            onChange={this.onCacheNameChange}
+          />
+          <IconButton name="sync" tooltip="Refresh the cache names" onClick={this.onRefreshCacheNames} />
+        </div>
+
+        <div className="gf-form">
+          <InlineFormLabel
+            tooltip="The columns time, timeEnd, title, text and tags (comma-separated) describe the annotations; time range macros, e.g. $__timeFilter(column), are supported."
+            width={8}
+          >
+            SQL Query
+          </InlineFormLabel>
+          <TextArea css="" value={query || ''} className="gf-form-input" onChange={this.onQueryChange} />
+        </div>
+      </div>
+    );
+  }
+}
@@ -18,10 +18,20 @@
  */
 import React, { ChangeEvent, PureComponent } from 'react';
 
-import { DataSourcePluginOptionsEditorProps } from '@grafana/data';
-import { Button, LegacyForms, TextArea } from '@grafana/ui';
+import { DataSourcePluginOptionsEditorProps, SelectableValue } from '@grafana/data';
+import { Button, InlineFormLabel, LegacyForms, Select, TextArea } from '@grafana/ui';
 
-import { IgniteDataSourceOptions, IgniteSecureJsonData } from '../../types';
+import { MAX_ADDITIONAL_ENDPOINTS } from '../../data-source/endpoints';
+import {
+  IgniteDataSourceOptions,
+  IgniteHttpHeader,
+  IgniteSecureJsonData,
+  IgniteTypeOverride,
+  LoadBalancing,
+  LoadBalancingValue,
+  TypeOverride,
+  TypeOverrideValue,
+} from '../../types';
 
 /**
  * Form Field
@@ -40,11 +50,36 @@ interface State {}
 
 /*
  * The current implementation of the configuration options
- * enables to provide a list of Apache Ignite endpoints,
+ * enables to provide a list of Apache Ignite endpoints (the
+ * data source url and up to four additional endpoints),
  * decide to leverage partition awareness, user authentication
  * and transport layer security.
  */
 export class ConfigEditor extends PureComponent<Props, State> {
+  /**
+   * The data source url of data sources that were saved
+   * without its copy in the json data is copied, as the
+   * primary proxy routes refer to it
+   */
+  componentDidMount() {
+    const { onOptionsChange, options } = this.props;
+    if (options.url && options.jsonData.primaryUrl !== options.url) {
+      onOptionsChange({ ...options, jsonData: { ...options.jsonData, primaryUrl: options.url } });
+    }
+  }
+
+  /**
+   * Primary endpoint change; the url is also provided as
+   * json data for the `token` and `auth` proxy routes
+   *
+   * @param {ChangeEvent<HTMLInputElement>} event Event
+   */
+  onUrlChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const { onOptionsChange, options } = this.props;
+    const url = event.target.value;
+    onOptionsChange({ ...options, url, jsonData: { ...options.jsonData, primaryUrl: url } });
+  };
+
   /**
    * Password Secure field (only sent to the backend) for Ignite
    *
@@ -75,6 +110,234 @@ export class ConfigEditor extends PureComponent<Props, State> {
       },
     });
   };
+  /**
+   * Additional endpoints are referenced by their position
+   * in the proxy routes `node1` ... `node4`; the positions
+   * of the remaining endpoints shift on removal.
+   */
+  onAddEndpoint = () => {
+    const { onOptionsChange, options } = this.props;
+    const endpoints = [...(options.jsonData.endpoints || []), ''];
+    onOptionsChange({ ...options, jsonData: { ...options.jsonData, endpoints } });
+  };
+
+  /**
+   * Additional endpoint change
+   *
+   * @param {number} index Index
+   * @param {string} value Value
+   */
+  onEndpointChange = (index: number, value: string) => {
+    const { onOptionsChange, options } = this.props;
+    const endpoints = (options.jsonData.endpoints || []).map((endpoint, i) => (i === index ? value : endpoint));
+    onOptionsChange({ ...options, jsonData: { ...options.jsonData, endpoints } });
+  };
+
+  /**
+   * Additional endpoint removal
+   *
+   * @param {number} index Index
+   */
+  onRemoveEndpoint = (index: number) => {
+    const { onOptionsChange, options } = this.props;
+    const endpoints = (options.jsonData.endpoints || []).filter((_endpoint, i) => i !== index);
+    onOptionsChange({ ...options, jsonData: { ...options.jsonData, endpoints } });
+  };
+
+  /**
+   * Access Token Secure field (only sent to the backend)
+   *
+   * @param {ChangeEvent<HTMLInputElement>} event Event
+   */
+  onAccessTokenChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const { onOptionsChange, options } = this.props;
+    onOptionsChange({ ...options, secureJsonData: { ...options.secureJsonData, accessToken: event.target.value } });
+  };
+
+  /**
+   * Access Token Reset
+   */
+  onResetAccessToken = () => {
+    const { onOptionsChange, options } = this.props;
+    onOptionsChange({
+      ...options,
+      secureJsonFields: { ...options.secureJsonFields, accessToken: false },
+      secureJsonData: { ...options.secureJsonData, accessToken: '' },
+    });
+  };
+
+  /**
+   * Custom HTTP headers are identified by a stable id;
+   * secure headers are numbered separately, see
+   * `updateHeaders`.
+   */
+  onAddHeader = () => {
+    const { onOptionsChange, options } = this.props;
+    const headers = options.jsonData.customHeaders || [];
+
+    const id = headers.reduce((max, header) => Math.max(max, header.id), 0) + 1;
+    const customHeaders = [...headers, { id, name: '', value: '', secure: false }];
+    onOptionsChange({ ...options, jsonData: { ...options.jsonData, customHeaders } });
+  };
+
+  /**
+   * Custom HTTP header change
+   *
+   * @param {IgniteHttpHeader} header Header
+   */
+  onHeaderChange = (header: IgniteHttpHeader) => {
+    const headers = this.props.options.jsonData.customHeaders || [];
+    this.updateHeaders(headers.map((h) => (h.id === header.id ? header : h)));
+  };
+
+  /**
+   * Secure custom HTTP header value
+   *
+   * @param {IgniteHttpHeader} header Header
+   * @param {string} value Value
+   */
+  onHeaderValueChange = (header: IgniteHttpHeader, value: string) => {
+    const { onOptionsChange, options } = this.props;
+    onOptionsChange({
+      ...options,
+      secureJsonData: { ...options.secureJsonData, [`httpHeaderValue${header.index}`]: value },
+    });
+  };
+
+  /**
+   * Secure custom HTTP header value reset
+   *
+   * @param {IgniteHttpHeader} header Header
+   */
+  onResetHeaderValue = (header: IgniteHttpHeader) => {
+    const { onOptionsChange, options } = this.props;
+    const key = `httpHeaderValue${header.index}`;
+    onOptionsChange({
+      ...options,
+      secureJsonFields: { ...options.secureJsonFields, [key]: false },
+      secureJsonData: { ...options.secureJsonData, [key]: '' },
+    });
+  };
+
+  /**
+   * Custom HTTP header removal
+   *
+   * @param {IgniteHttpHeader} header Header
+   */
+  onRemoveHeader = (header: IgniteHttpHeader) => {
+    const headers = this.props.options.jsonData.customHeaders || [];
+    this.updateHeaders(headers.filter((h) => h.id !== header.id));
+  };
+
+  /**
+   * The Grafana server reads secure headers as `httpHeaderName{n}`
+   * and `httpHeaderValue{n}`, from n = 1 up to the first missing
+   * name. Secure headers are therefore numbered contiguously
+   * whenever the headers change, and stale indices are removed.
+   *
+   * Encrypted values cannot be moved to another index: secure
+   * headers retain their index where possible, and a header that
+   * is moved into a free index must be entered again, unless its
+   * value has not been saved yet.
+   *
+   * @param {IgniteHttpHeader[]} headers Headers
+   */
+  updateHeaders = (headers: IgniteHttpHeader[]) => {
+    const { onOptionsChange, options } = this.props;
+    const previous = (options.jsonData.customHeaders || []).filter((h) => h.secure && h.index !== undefined);
+    const values = (options.secureJsonData || {}) as IgniteSecureJsonData;
+
+    const jsonData: any = { ...options.jsonData };
+    const secureJsonData: IgniteSecureJsonData = { ...values };
+    const secureJsonFields: Record<string, boolean> = { ...options.secureJsonFields };
+
+    previous.forEach((h) => {
+      delete jsonData[`httpHeaderName${h.index}`];
+    });
+
+    const count = headers.filter((header) => header.secure).length;
+    const indexOf = (header: IgniteHttpHeader) => {
+      const before = previous.find((h) => h.id === header.id);
+      return before !== undefined && before.index! <= count ? before.index : undefined;
+    };
+
+    const retained = headers.filter((header) => header.secure).map(indexOf);
+    const free: number[] = [];
+    for (let n = 1; n <= count; n++) {
+      if (!retained.includes(n)) {
+        free.push(n);
+      }
+    }
+
+    const customHeaders = headers.map((header) => {
+      if (!header.secure) {
+        return { ...header, index: undefined };
+      }
+
+      let index = indexOf(header);
+      if (index === undefined) {
+        index = free.shift()!;
+
+        const before = previous.find((h) => h.id === header.id);
+        const key = `httpHeaderValue${index}`;
+        secureJsonData[key] = (before && values[`httpHeaderValue${before.index}`]) || '';
+        secureJsonFields[key] = false;
+      }
+
+      jsonData[`httpHeaderName${index}`] = header.name;
+      return { ...header, index };
+    });
+    /*
+     * Indices beyond the last secure header are stale
+     */
+    previous
+      .filter((h) => h.index! > count)
+      .forEach((h) => {
+        const key = `httpHeaderValue${h.index}`;
+        secureJsonData[key] = '';
+        secureJsonFields[key] = false;
+      });
+
+    onOptionsChange({ ...options, jsonData: { ...jsonData, customHeaders }, secureJsonData, secureJsonFields });
+  };
+
+  /**
+   * Type override addition; overrides are
+   * identified by a stable id
+   */
+  onAddTypeOverride = () => {
+    const { onOptionsChange, options } = this.props;
+    const overrides = options.jsonData.typeOverrides || [];
+
+    const id = overrides.reduce((max, override) => Math.max(max, override.id), 0) + 1;
+    const typeOverrides = [...overrides, { id, javaType: '', fieldType: TypeOverrideValue.STRING }];
+    onOptionsChange({ ...options, jsonData: { ...options.jsonData, typeOverrides } });
+  };
+
+  /**
+   * Type override change
+   *
+   * @param {IgniteTypeOverride} override Type override
+   */
+  onTypeOverrideChange = (override: IgniteTypeOverride) => {
+    const { onOptionsChange, options } = this.props;
+
+    const typeOverrides = (options.jsonData.typeOverrides || []).map((o) => (o.id === override.id ? override : o));
+    onOptionsChange({ ...options, jsonData: { ...options.jsonData, typeOverrides } });
+  };
+
+  /**
+   * Type override removal
+   *
+   * @param {IgniteTypeOverride} override Type override
+   */
+  onRemoveTypeOverride = (override: IgniteTypeOverride) => {
+    const { onOptionsChange, options } = this.props;
+
+    const typeOverrides = (options.jsonData.typeOverrides || []).filter((o) => o.id !== override.id);
+    onOptionsChange({ ...options, jsonData: { ...options.jsonData, typeOverrides } });
+  };
+
   /**
    * TLS Client key
    *
@@ -165,20 +428,62 @@ export class ConfigEditor extends PureComponent<Props, State> {
             label="Endpoint"
             labelWidth={10}
             inputWidth={20}
-            onChange={(event: ChangeEvent<HTMLInputElement>) => {
-              onOptionsChange({ ...options, url: event.target.value });
-            }}
+            onChange={this.onUrlChange}
             value={url || ''}
             tooltip="Accepts an URI to the REST endpoint of Apache Ignite."
             placeholder="http://localhost:8080"
           />
         </div>
 
+        {(jsonData.endpoints || []).map((endpoint, index) => (
+          <div className="gf-form-inline" key={index}>
+            <FormField
+              label={`Endpoint ${index + 2}`}
+              labelWidth={10}
+              inputWidth={20}
+              onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                this.onEndpointChange(index, event.target.value);
+              }}
+              value={endpoint || ''}
+              tooltip="Accepts an URI to a further REST endpoint of the Apache Ignite cluster."
+              placeholder="http://localhost:8081"
+            />
+            <Button type="button" variant="secondary" icon="trash-alt" onClick={() => this.onRemoveEndpoint(index)} />
+          </div>
+        ))}
+
+        {(jsonData.endpoints || []).length < MAX_ADDITIONAL_ENDPOINTS && (
+          <div className="gf-form">
+            <Button type="button" variant="secondary" icon="plus" onClick={this.onAddEndpoint}>
+              Add endpoint
+            </Button>
+          </div>
+        )}
+
+        {(jsonData.endpoints || []).length > 0 && (
+          <div className="gf-form">
+            <InlineFormLabel
+              tooltip="Unreachable endpoints are ejected for a while, and requests are retried on the next endpoint."
+              width={10}
+            >
+              Load Balancing
+            </InlineFormLabel>
+            <Select
+              width={30}
+              options={LoadBalancing}
+              value={jsonData.loadBalancing || LoadBalancingValue.FAILOVER}
+              onChange={(value: SelectableValue<LoadBalancingValue>) => {
+                onOptionsChange({ ...options, jsonData: { ...options.jsonData, loadBalancing: value.value } });
+              }}
+            />
+          </div>
+        )}
+
         <div className="gf-form">
           <Switch
             label="Partition Awareness"
             labelClass="width-10"
-            tooltip="Partition awareness allows to send query requests directly to the node that owns the queried data."
+            tooltip="Partition awareness allows to send key-based requests directly to the node that owns the queried data. The nodes must be configured as endpoints."
             checked={jsonData.partitionAwareness || false}
             onChange={(event) => {
               const jsonData = { ...options.jsonData, partitionAwareness: event.currentTarget.checked };
@@ -187,6 +492,203 @@ export class ConfigEditor extends PureComponent<Props, State> {
           />
         </div>
 
+        <div className="gf-form">
+          <FormField
+            label="Max Rows"
+            labelWidth={10}
+            inputWidth={10}
+            type="number"
+            onChange={(event: ChangeEvent<HTMLInputElement>) => {
+              const maxRows = event.target.value === '' ? undefined : Number(event.target.value);
+              onOptionsChange({ ...options, jsonData: { ...options.jsonData, maxRows } });
+            }}
+            value={jsonData.maxRows || ''}
+            tooltip="The maximum number of rows retrieved for an SQL query. Larger results are truncated."
+            placeholder="100000"
+          />
+        </div>
+
+        <div className="gf-form">
+          <FormField
+            label="Metadata TTL"
+            labelWidth={10}
+            inputWidth={10}
+            type="number"
+            onChange={(event: ChangeEvent<HTMLInputElement>) => {
+              const metadataTtl = event.target.value === '' ? undefined : Number(event.target.value);
+              onOptionsChange({ ...options, jsonData: { ...options.jsonData, metadataTtl } });
+            }}
+            value={jsonData.metadataTtl === undefined ? '' : jsonData.metadataTtl}
+            tooltip="The time (in seconds) cache names and SQL metadata are reused before they are requested again. 0 disables the metadata cache."
+            placeholder="60"
+          />
+        </div>
+
+        <div className="gf-form">
+          <Switch
+            label="Result Cache"
+            labelClass="width-10"
+            tooltip="Caches SQL query results in the browser; identical queries within the same (aligned) time range are served from the cache."
+            checked={jsonData.resultCache || false}
+            onChange={(event) => {
+              const jsonData = { ...options.jsonData, resultCache: event.currentTarget.checked };
+              onOptionsChange({ ...options, jsonData });
+            }}
+          />
+        </div>
+
+        {jsonData.resultCache && (
+          <>
+            <div className="gf-form">
+              <FormField
+                label="Cache TTL"
+                labelWidth={10}
+                inputWidth={10}
+                type="number"
+                onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                  const resultCacheTtl = event.target.value === '' ? undefined : Number(event.target.value);
+                  onOptionsChange({ ...options, jsonData: { ...options.jsonData, resultCacheTtl } });
+                }}
+                value={jsonData.resultCacheTtl || ''}
+                tooltip="The time (in seconds) a query result is reused."
+                placeholder="30"
+              />
+            </div>
+            <div className="gf-form">
+              <FormField
+                label="Cache Size"
+                labelWidth={10}
+                inputWidth={10}
+                type="number"
+                onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                  const resultCacheSize = event.target.value === '' ? undefined : Number(event.target.value);
+                  onOptionsChange({ ...options, jsonData: { ...options.jsonData, resultCacheSize } });
+                }}
+                value={jsonData.resultCacheSize || ''}
+                tooltip="The maximum memory size (in MB) of the cached query results."
+                placeholder="16"
+              />
+            </div>
+          </>
+        )}
+
+        <div className="gf-form">
+          <FormField
+            label="Time Zone"
+            labelWidth={10}
+            inputWidth={10}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => {
+              onOptionsChange({ ...options, jsonData: { ...options.jsonData, timeZone: event.target.value } });
+            }}
+            value={jsonData.timeZone || ''}
+            tooltip="The time zone of the Apache Ignite server, used to interpret timestamps without time zone, e.g. utc or Europe/Berlin."
+            placeholder="utc"
+          />
+        </div>
+
+        <br />
+        {/*
+          The default execution options of SQL queries;
+          queries may override them individually.
+          */}
+        <h3 className="page-heading">Query Options</h3>
+        <div className="gf-form">
+          <FormField
+            label="Schema"
+            labelWidth={10}
+            inputWidth={10}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => {
+              onOptionsChange({ ...options, jsonData: { ...options.jsonData, schema: event.target.value } });
+            }}
+            value={jsonData.schema || ''}
+            tooltip="The SQL schema of the queries, if not specified by the query; sent as `schemaName`."
+            placeholder="PUBLIC"
+          />
+        </div>
+
+        <div className="gf-form">
+          <Switch
+            label="Distributed Joins"
+            labelClass="width-10"
+            tooltip="Enables joins of non-collocated data; this is more expensive than joins of collocated data."
+            checked={jsonData.distributedJoins || false}
+            onChange={(event) => {
+              const jsonData = { ...options.jsonData, distributedJoins: event.currentTarget.checked };
+              onOptionsChange({ ...options, jsonData });
+            }}
+          />
+        </div>
+
+        <div className="gf-form">
+          <Switch
+            label="Enforce Join Order"
+            labelClass="width-10"
+            tooltip="Joins are executed in the order of the query, rather than reordered by the query optimizer. Not applied, if Apache Ignite's REST API does not support the `enforceJoinOrder` parameter."
+            checked={jsonData.enforceJoinOrder || false}
+            onChange={(event) => {
+              const jsonData = { ...options.jsonData, enforceJoinOrder: event.currentTarget.checked };
+              onOptionsChange({ ...options, jsonData });
+            }}
+          />
+        </div>
+
+        <div className="gf-form">
+          <Switch
+            label="Replicated Only"
+            labelClass="width-10"
+            tooltip="The queries refer to replicated caches only, and are executed on a single node. Not applied, if Apache Ignite's REST API does not support the `replicatedOnly` parameter."
+            checked={jsonData.replicatedOnly || false}
+            onChange={(event) => {
+              const jsonData = { ...options.jsonData, replicatedOnly: event.currentTarget.checked };
+              onOptionsChange({ ...options, jsonData });
+            }}
+          />
+        </div>
+
+        <div className="gf-form">
+          <Switch
+            label="Lazy"
+            labelClass="width-10"
+            tooltip="Results are fetched lazily, page by page, to reduce the memory consumption of large results on the server. Not applied, if Apache Ignite's REST API does not support the `lazy` parameter."
+            checked={jsonData.lazy || false}
+            onChange={(event) => {
+              const jsonData = { ...options.jsonData, lazy: event.currentTarget.checked };
+              onOptionsChange({ ...options, jsonData });
+            }}
+          />
+        </div>
+
+        <div className="gf-form">
+          <FormField
+            label="Query Timeout"
+            labelWidth={10}
+            inputWidth={10}
+            type="number"
+            onChange={(event: ChangeEvent<HTMLInputElement>) => {
+              const queryTimeout = event.target.value === '' ? undefined : Number(event.target.value);
+              onOptionsChange({ ...options, jsonData: { ...options.jsonData, queryTimeout } });
+            }}
+            value={jsonData.queryTimeout || ''}
+            tooltip="The time (in seconds) after which a query is cancelled; Apache Ignite applies it, if its REST API supports the `timeout` parameter, and further pages are not fetched after the timeout. No timeout, if not specified."
+          />
+        </div>
+
+        <div className="gf-form">
+          <FormField
+            label="Page Size"
+            labelWidth={10}
+            inputWidth={10}
+            type="number"
+            onChange={(event: ChangeEvent<HTMLInputElement>) => {
+              const pageSize = event.target.value === '' ? undefined : Number(event.target.value);
+              onOptionsChange({ ...options, jsonData: { ...options.jsonData, pageSize } });
+            }}
+            value={jsonData.pageSize || ''}
+            tooltip="The number of rows that are retrieved per request."
+            placeholder="1024"
+          />
+        </div>
+
         <br />
         <h3 className="page-heading">User Authentication</h3>
 
@@ -230,6 +732,135 @@ export class ConfigEditor extends PureComponent<Props, State> {
           )}
         </div>
 
+        <div className="gf-form">
+          <Switch
+            label="Token Auth"
+            labelClass="width-10"
+            tooltip="Sends an access token as Authorization: Bearer header, e.g. to an API gateway."
+            checked={jsonData.tokenAuth || false}
+            onChange={(event) => {
+              const jsonData = { ...options.jsonData, tokenAuth: event.currentTarget.checked };
+              onOptionsChange({ ...options, jsonData });
+            }}
+          />
+
+          {jsonData.tokenAuth && (
+            <SecretFormField
+              isConfigured={(secureJsonFields && secureJsonFields.accessToken) as boolean}
+              value={secureJsonData.accessToken || ''}
+              label="Access Token"
+              placeholder="Bearer token"
+              labelWidth={10}
+              inputWidth={20}
+              tooltip="This token is added as Authorization: Bearer header by the Grafana server."
+              onReset={this.onResetAccessToken}
+              onChange={this.onAccessTokenChange}
+            />
+          )}
+        </div>
+
+        <br />
+        {/*
+          Custom HTTP headers are forwarded with every request;
+          the values of secure headers are encrypted.
+          */}
+        <h3 className="page-heading">Custom HTTP Headers</h3>
+        {(jsonData.customHeaders || []).map((header) => (
+          <div className="gf-form-inline" key={header.id}>
+            <FormField
+              label="Header"
+              labelWidth={10}
+              inputWidth={12}
+              value={header.name}
+              placeholder="X-Custom-Header"
+              onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                this.onHeaderChange({ ...header, name: event.target.value });
+              }}
+            />
+            {header.secure ? (
+              <SecretFormField
+                isConfigured={(secureJsonFields && secureJsonFields[`httpHeaderValue${header.index}`]) as boolean}
+                value={secureJsonData[`httpHeaderValue${header.index}`] || ''}
+                label="Value"
+                labelWidth={6}
+                inputWidth={12}
+                onReset={() => this.onResetHeaderValue(header)}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                  this.onHeaderValueChange(header, event.target.value);
+                }}
+              />
+            ) : (
+              <FormField
+                label="Value"
+                labelWidth={6}
+                inputWidth={12}
+                value={header.value || ''}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                  this.onHeaderChange({ ...header, value: event.target.value });
+                }}
+              />
+            )}
+            <Switch
+              label="Secret"
+              labelClass="width-6"
+              tooltip="Secret header values are encrypted and added by the Grafana server."
+              checked={header.secure}
+              onChange={(event) => {
+                this.onHeaderChange({ ...header, secure: event.currentTarget.checked, value: '' });
+              }}
+            />
+            <Button type="button" variant="secondary" icon="trash-alt" onClick={() => this.onRemoveHeader(header)} />
+          </div>
+        ))}
+        <div className="gf-form">
+          <Button type="button" variant="secondary" icon="plus" onClick={this.onAddHeader}>
+            Add header
+          </Button>
+        </div>
+
+        <br />
+        {/*
+          Type overrides map Java types, e.g. custom classes
+          or enums, onto Grafana field types.
+          */}
+        <h3 className="page-heading">Type Overrides</h3>
+        {(jsonData.typeOverrides || []).map((override) => (
+          <div className="gf-form-inline" key={override.id}>
+            <FormField
+              label="Java Type"
+              labelWidth={10}
+              inputWidth={20}
+              value={override.javaType}
+              placeholder="com.example.Status"
+              onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                this.onTypeOverrideChange({ ...override, javaType: event.target.value });
+              }}
+            />
+            <div className="gf-form">
+              <InlineFormLabel width={6}>Field Type</InlineFormLabel>
+              <Select
+                width={20}
+                options={TypeOverride}
+                value={override.fieldType}
+                onChange={(val: SelectableValue<TypeOverrideValue>) => {
+                  this.onTypeOverrideChange({ ...override, fieldType: val.value || TypeOverrideValue.STRING });
+                }}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="secondary"
+              icon="trash-alt"
+              onClick={() => this.onRemoveTypeOverride(override)}
+            />
+          </div>
+        ))}
+        <div className="gf-form">
+          <Button type="button" variant="secondary" icon="plus" onClick={this.onAddTypeOverride}>
+            Add type override
+          </Button>
+        </div>
+
         <br />
         {/* 
           TLS support for Apache Ignite requires the provisioning
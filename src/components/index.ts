@@ -16,5 +16,7 @@
  * @author Stefan Krusche, Dr. Krusche & Partner PartG
  *
  */
+export * from './annotation-query-editor';
 export * from './config-editor';
 export * from './query-editor';
+export * from './variable-query-editor';
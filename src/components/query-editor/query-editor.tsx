@@ -20,22 +20,88 @@ import React, { ChangeEvent, PureComponent } from 'react';
 import { css } from 'emotion';
 
 import { QueryEditorProps, SelectableValue } from '@grafana/data';
-import { InlineFormLabel, LegacyForms, Select, TextArea } from '@grafana/ui';
+import { Button, IconButton, InlineFormLabel, LegacyForms, MultiSelect, Select, TextArea } from '@grafana/ui';
 
 import { DataSource } from '../../data-source';
-import { FormatTypeValue, FormatType, IgniteDataSourceOptions, IgniteQuery } from '../../types';
+import {
+  CacheMetric,
+  CacheMetricValue,
+  FormatTypeValue,
+  FormatType,
+  IgniteDataSourceOptions,
+  IgniteLogCursor,
+  IgniteQuery,
+  IgniteQueryParameter,
+  NodeMetric,
+  NodeMetricValue,
+  ParameterSource,
+  ParameterSourceValue,
+  ParameterType,
+  ParameterTypeValue,
+  QueryType,
+  QueryTypeValue,
+} from '../../types';
+import { formatPlan } from '../../utils/explain';
+import { DEFAULT_LOG_LIMIT, toLogCursor } from '../../utils/logs';
+import { countPlaceholders } from '../../utils/parameters';
 
 /**
  * Form Field
  */
-const { FormField } = LegacyForms;
+const { FormField, Switch } = LegacyForms;
 
 /**
  * Editor Property
  */
 type Props = QueryEditorProps<DataSource, IgniteQuery, IgniteDataSourceOptions>;
 
-export class QueryEditor extends PureComponent<Props> {
+/**
+ * State
+ */
+interface State {
+  /**
+   * The names of the caches of the cluster
+   *
+   * @type {string[]}
+   */
+  cacheNames: string[];
+  /**
+   * The execution plan of the SQL query
+   * or the reason why it is not available
+   *
+   * @type {string}
+   */
+  plan?: string;
+}
+
+export class QueryEditor extends PureComponent<Props, State> {
+  state: State = { cacheNames: [] };
+
+  componentDidMount() {
+    this.loadCacheNames();
+  }
+
+  /**
+   * The cache names are provided by the metadata cache of
+   * the data source; failures leave the picker empty, and
+   * cache names can still be entered manually.
+   */
+  loadCacheNames() {
+    this.props.datasource.listCaches().then(
+      (cacheNames) => this.setState({ cacheNames }),
+      () => this.setState({ cacheNames: [] })
+    );
+  }
+
+  /**
+   * Refresh the cache names, e.g. after caches
+   * have been created or destroyed
+   */
+  onRefreshCacheNames = () => {
+    this.props.datasource.invalidateMetadata();
+    this.loadCacheNames();
+  };
+
   /**
    * Change handler for select field
    *
@@ -65,10 +131,55 @@ export class QueryEditor extends PureComponent<Props> {
     this.props.onChange({ ...this.props.query, [name]: event.target.value });
   };
 
+  /**
+   * Query type change
+   */
+  onQueryTypeChange = this.createSelectFieldHandler('queryType');
+
   /**
    * Cache name change
    */
-  onCacheNameChange = this.createTextFieldHandler('cacheName');
+  onCacheNameChange = this.createSelectFieldHandler<string>('cacheName');
+
+  /**
+   * Key change
+   */
+  onKeyChange = this.createTextFieldHandler('key');
+
+  /**
+   * Keys change
+   */
+  onKeysChange = this.createTextFieldHandler('keys');
+
+  /**
+   * Key type change
+   */
+  onKeyTypeChange = this.createTextFieldHandler('keyType');
+
+  /**
+   * Node metrics change
+   *
+   * @param {Array<SelectableValue<NodeMetricValue>>} values Values
+   */
+  onNodeMetricsChange = (values: Array<SelectableValue<NodeMetricValue>>) => {
+    const nodeMetrics = values.map((v) => v.value as NodeMetricValue);
+    this.props.onChange({ ...this.props.query, nodeMetrics });
+  };
+
+  /**
+   * Cache metrics change
+   *
+   * @param {Array<SelectableValue<CacheMetricValue>>} values Values
+   */
+  onCacheMetricsChange = (values: Array<SelectableValue<CacheMetricValue>>) => {
+    const cacheMetrics = values.map((v) => v.value as CacheMetricValue);
+    this.props.onChange({ ...this.props.query, cacheMetrics });
+  };
+
+  /**
+   * Node attributes change
+   */
+  onNodeAttributesChange = this.createTextFieldHandler('nodeAttributes');
 
   /**
    * Format change
@@ -79,26 +190,336 @@ export class QueryEditor extends PureComponent<Props> {
    * Time column change
    */
   onTimeColumnChange = this.createTextFieldHandler('timeColumn');
+
+  /**
+   * Group by change
+   */
+  onGroupByChange = this.createTextFieldHandler('groupBy');
+
+  /**
+   * Message column change
+   */
+  onMessageColumnChange = this.createTextFieldHandler('messageColumn');
+
+  /**
+   * Level column change
+   */
+  onLevelColumnChange = this.createTextFieldHandler('levelColumn');
+
+  /**
+   * Label columns change
+   */
+  onLabelColumnsChange = this.createTextFieldHandler('labelColumns');
   /**
    * Query change
    */
   onQueryChange = this.createTextareaFieldHandler('query');
+  /**
+   * Skip cache change
+   *
+   * @param {React.SyntheticEvent<HTMLInputElement>} event Event
+   */
+  onSkipCacheChange = (event: React.SyntheticEvent<HTMLInputElement>) => {
+    this.props.onChange({ ...this.props.query, skipCache: event.currentTarget.checked });
+  };
+  /**
+   * Parameter addition; parameters are
+   * identified by a stable id
+   */
+  onAddParameter = () => {
+    const parameters = this.props.query.parameters || [];
+
+    const id = parameters.reduce((max, parameter) => Math.max(max, parameter.id), 0) + 1;
+    this.props.onChange({
+      ...this.props.query,
+      parameters: [
+        ...parameters,
+        { id, source: ParameterSourceValue.LITERAL, value: '', type: ParameterTypeValue.STRING },
+      ],
+    });
+  };
+  /**
+   * Parameter change
+   *
+   * @param {IgniteQueryParameter} parameter Parameter
+   */
+  onParameterChange = (parameter: IgniteQueryParameter) => {
+    const parameters = (this.props.query.parameters || []).map((p) => (p.id === parameter.id ? parameter : p));
+    this.props.onChange({ ...this.props.query, parameters });
+  };
+  /**
+   * Parameter removal
+   *
+   * @param {IgniteQueryParameter} parameter Parameter
+   */
+  onRemoveParameter = (parameter: IgniteQueryParameter) => {
+    const parameters = (this.props.query.parameters || []).filter((p) => p.id !== parameter.id);
+    this.props.onChange({ ...this.props.query, parameters });
+  };
+  /**
+   * Change handler for numeric fields
+   *
+   * @param {ChangeEvent<HTMLInputElement>} event Event
+   */
+  createNumberFieldHandler = (name: keyof IgniteQuery) => (event: ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value === '' ? undefined : Number(event.target.value);
+    this.props.onChange({ ...this.props.query, [name]: value });
+  };
+  /**
+   * Schema change
+   */
+  onSchemaChange = this.createTextFieldHandler('schema');
+  /**
+   * Query timeout change
+   */
+  onQueryTimeoutChange = this.createNumberFieldHandler('queryTimeout');
+  /**
+   * Page size change
+   */
+  onPageSizeChange = this.createNumberFieldHandler('pageSize');
+  /**
+   * Change handler for the switches of the execution options
+   *
+   * @param {React.SyntheticEvent<HTMLInputElement>} event Event
+   */
+  createOptionSwitchHandler = (name: keyof IgniteQuery) => (event: React.SyntheticEvent<HTMLInputElement>) => {
+    this.props.onChange({ ...this.props.query, [name]: event.currentTarget.checked });
+  };
+  /**
+   * Explain change
+   *
+   * @param {React.SyntheticEvent<HTMLInputElement>} event Event
+   */
+  onExplainChange = (event: React.SyntheticEvent<HTMLInputElement>) => {
+    this.props.onChange({ ...this.props.query, explain: event.currentTarget.checked });
+  };
+  /**
+   * Retrieve the execution plan of the SQL query
+   * and show it below the query
+   */
+  onShowPlan = () => {
+    this.props.datasource.explain(this.props.query, this.props.range).then(
+      (steps) => this.setState({ plan: formatPlan(steps) }),
+      (err) => this.setState({ plan: `Failed to explain the query: ${(err && err.message) || err}` })
+    );
+  };
+  /**
+   * Hide the execution plan
+   */
+  onHidePlan = () => {
+    this.setState({ plan: undefined });
+  };
+  /**
+   * Streaming change
+   *
+   * @param {React.SyntheticEvent<HTMLInputElement>} event Event
+   */
+  onStreamingChange = (event: React.SyntheticEvent<HTMLInputElement>) => {
+    this.props.onChange({ ...this.props.query, streaming: event.currentTarget.checked });
+  };
+  /**
+   * Streaming interval change
+   */
+  onStreamIntervalChange = this.createNumberFieldHandler('streamInterval');
+  /**
+   * Streaming capacity change
+   */
+  onStreamCapacityChange = this.createNumberFieldHandler('streamCapacity');
+  /**
+   * Log line limit change
+   */
+  onLogLimitChange = this.createNumberFieldHandler('logLimit');
+  /**
+   * Load the page of log lines before the oldest
+   * log line of the current result
+   */
+  onOlderLogs = () => {
+    const logCursor = this.getLogCursor();
+    if (logCursor === undefined) {
+      return;
+    }
+    this.props.onChange({ ...this.props.query, logCursor });
+    this.props.onRunQuery();
+  };
+  /**
+   * Load the latest log lines again
+   */
+  onNewestLogs = () => {
+    this.props.onChange({ ...this.props.query, logCursor: undefined });
+    this.props.onRunQuery();
+  };
+
+  /**
+   * The cursor of the page before the log lines
+   * of the current result
+   */
+  getLogCursor(): IgniteLogCursor | undefined {
+    const series = (this.props.data && this.props.data.series) || [];
+    return toLogCursor(series, this.props.query.refId, this.props.query.logCursor);
+  }
+
+  /**
+   * The options of the cache picker; the current value is
+   * retained, e.g. a dashboard variable or a list of caches
+   */
+  getCacheNameOptions(cacheName?: string): Array<SelectableValue<string>> {
+    const names = [...this.state.cacheNames];
+    if (cacheName && !names.includes(cacheName)) {
+      names.unshift(cacheName);
+    }
+    return names.map((name) => ({ label: name, value: name }));
+  }
 
   render() {
-    const { cacheName, format, timeColumn, query } = this.props.query;
+    const {
+      queryType,
+      cacheName,
+      key,
+      keys,
+      keyType,
+      nodeMetrics,
+      nodeAttributes,
+      cacheMetrics,
+      format,
+      timeColumn,
+      groupBy,
+      query,
+    } = this.props.query;
+    const type = queryType || QueryTypeValue.SQL;
     return (
       <div className="gf-form-group">
-        {/* Provide the name of cache */}
+        {/* Select the type of the query */}
         <div className="gf-form">
-          <FormField
-            labelWidth={8}
-            inputWidth={20}
-            value={cacheName}
-            onChange={this.onCacheNameChange}
-            label="Cache"
-            tooltip="Name of the data cache."
+          <InlineFormLabel tooltip="" width={8}>
+            Query Type
+          </InlineFormLabel>
+          <Select
+            className={css`
+              margin-right: 5px;
+            `}
+            width={40}
+            options={QueryType}
+            menuPlacement="bottom"
+            value={type}
+            onChange={this.onQueryTypeChange}
           />
         </div>
+        {/* Provide the name of cache */}
+        {type !== QueryTypeValue.NODES && (
+          <div className="gf-form">
+            <InlineFormLabel tooltip="Name of the data cache." width={8}>
+              Cache
+            </InlineFormLabel>
+            <Select
+              className={css`
+                margin-right: 5px;
+              `}
+              width={40}
+              options={this.getCacheNameOptions(cacheName)}
+              menuPlacement="bottom"
+              allowCustomValue
+              value={cacheName}
+              onChange={this.onCacheNameChange}
+            />
+            <IconButton name="sync" tooltip="Refresh the cache names" onClick={this.onRefreshCacheNames} />
+          </div>
+        )}
+
+        {type === QueryTypeValue.CACHE_METRICS && (
+          <div className="gf-form">
+            <InlineFormLabel
+              tooltip="The size and metrics of the selected caches; the backup size, evictions and average times are taken from the SYS.METRICS view of the node that serves the request, and require enabled cache statistics."
+              width={8}
+            >
+              Metrics
+            </InlineFormLabel>
+            <MultiSelect
+              width={40}
+              options={CacheMetric}
+              menuPlacement="bottom"
+              value={cacheMetrics || []}
+              onChange={this.onCacheMetricsChange}
+            />
+          </div>
+        )}
+
+        {type === QueryTypeValue.NODES && (
+          <div className="gf-form">
+            <InlineFormLabel tooltip="The node metrics provided by the cluster topology." width={8}>
+              Metrics
+            </InlineFormLabel>
+            <MultiSelect
+              width={40}
+              options={NodeMetric}
+              menuPlacement="bottom"
+              value={nodeMetrics || []}
+              onChange={this.onNodeMetricsChange}
+            />
+          </div>
+        )}
+
+        {type === QueryTypeValue.NODES && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={8}
+              inputWidth={20}
+              value={nodeAttributes}
+              onChange={this.onNodeAttributesChange}
+              label="Attributes"
+              placeholder="org.apache.ignite.build.ver"
+              tooltip="Comma-separated list of node attributes that are provided as labels."
+            />
+          </div>
+        )}
+
+        {type === QueryTypeValue.GET && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={8}
+              inputWidth={20}
+              value={key}
+              onChange={this.onKeyChange}
+              label="Key"
+              tooltip="The key of the cache entry."
+            />
+          </div>
+        )}
+
+        {type === QueryTypeValue.GET_ALL && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={8}
+              inputWidth={20}
+              value={keys}
+              onChange={this.onKeysChange}
+              label="Keys"
+              tooltip="Comma-separated list of keys; multi-value variables are expanded."
+            />
+          </div>
+        )}
+
+        {(type === QueryTypeValue.GET || type === QueryTypeValue.GET_ALL) && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={8}
+              inputWidth={20}
+              value={keyType}
+              onChange={this.onKeyTypeChange}
+              label="Key type"
+              placeholder="string"
+              tooltip="The type of the keys, e.g. int, long or a Java class name."
+            />
+          </div>
+        )}
+
+        {type === QueryTypeValue.SQL && this.renderSqlQuery(format, timeColumn, groupBy, query)}
+      </div>
+    );
+  }
+
+  renderSqlQuery(format?: FormatTypeValue, timeColumn?: string, groupBy?: string, query?: string) {
+    return (
+      <>
         {/* Provide the rendering format of the query result */}
         <div className="gf-form">
           <InlineFormLabel tooltip="" width={8}>
@@ -116,7 +537,7 @@ export class QueryEditor extends PureComponent<Props> {
           />
         </div>
 
-        {format === FormatTypeValue.TIMESERIES && (
+        {(format === FormatTypeValue.TIMESERIES || format === FormatTypeValue.LOGS) && (
           <div className="gf-form">
             <FormField
               labelWidth={8}
@@ -129,6 +550,136 @@ export class QueryEditor extends PureComponent<Props> {
           </div>
         )}
 
+        {format === FormatTypeValue.TIMESERIES && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={8}
+              inputWidth={20}
+              value={groupBy}
+              onChange={this.onGroupByChange}
+              label="Group by"
+              tooltip="Comma-separated list of metric or label columns; the result is split into one series per combination of their values."
+            />
+          </div>
+        )}
+
+        {format === FormatTypeValue.LOGS && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={8}
+              inputWidth={20}
+              value={this.props.query.messageColumn || ''}
+              onChange={this.onMessageColumnChange}
+              label="Message column"
+              placeholder="first text column"
+              tooltip="Name of the column that contains the log message."
+            />
+          </div>
+        )}
+
+        {format === FormatTypeValue.LOGS && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={8}
+              inputWidth={20}
+              value={this.props.query.levelColumn || ''}
+              onChange={this.onLevelColumnChange}
+              label="Level column"
+              tooltip="Name of the column that contains the log level, e.g. INFO, WARN or SEVERE; the level determines the color of a log line."
+            />
+          </div>
+        )}
+
+        {format === FormatTypeValue.LOGS && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={8}
+              inputWidth={20}
+              value={this.props.query.labelColumns || ''}
+              onChange={this.onLabelColumnsChange}
+              label="Label columns"
+              tooltip="Comma-separated list of columns that are provided as labels of the log lines."
+            />
+          </div>
+        )}
+
+        {format === FormatTypeValue.LOGS && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={8}
+              inputWidth={6}
+              type="number"
+              value={this.props.query.logLimit || ''}
+              onChange={this.onLogLimitChange}
+              label="Line limit"
+              placeholder={String(DEFAULT_LOG_LIMIT)}
+              tooltip="The maximum number of log lines per page; the latest log lines are shown first."
+            />
+            <Button
+              className={css`
+                margin-left: 5px;
+              `}
+              type="button"
+              variant="secondary"
+              size="sm"
+              disabled={this.getLogCursor() === undefined}
+              onClick={this.onOlderLogs}
+            >
+              Older lines
+            </Button>
+            {this.props.query.logCursor && (
+              <Button
+                className={css`
+                  margin-left: 5px;
+                `}
+                type="button"
+                variant="secondary"
+                size="sm"
+                onClick={this.onNewestLogs}
+              >
+                Newest lines
+              </Button>
+            )}
+          </div>
+        )}
+
+        {format === FormatTypeValue.TIMESERIES && (
+          <div className="gf-form">
+            <Switch
+              label="Streaming"
+              labelClass="width-8"
+              tooltip="The query is polled, and only rows from the latest time column value on are fetched, and the ones not seen yet are appended."
+              checked={this.props.query.streaming || false}
+              onChange={this.onStreamingChange}
+            />
+          </div>
+        )}
+
+        {format === FormatTypeValue.TIMESERIES && this.props.query.streaming && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={8}
+              inputWidth={6}
+              type="number"
+              value={this.props.query.streamInterval || ''}
+              onChange={this.onStreamIntervalChange}
+              label="Interval"
+              placeholder="5"
+              tooltip="The polling interval in seconds."
+            />
+            <FormField
+              labelWidth={8}
+              inputWidth={6}
+              type="number"
+              value={this.props.query.streamCapacity || ''}
+              onChange={this.onStreamCapacityChange}
+              label="Capacity"
+              placeholder="1000"
+              tooltip="The maximum number of rows retained per series."
+            />
+          </div>
+        )}
+
         <div className="gf-form">
           <InlineFormLabel
             tooltip="The syntax is based on ANSI SQL: https://ignite.apache.org/docs/latest/SQL/sql-introduction"
@@ -138,7 +689,220 @@ export class QueryEditor extends PureComponent<Props> {
           </InlineFormLabel>
           <TextArea css="" value={query} className="gf-form-input" onChange={this.onQueryChange} />
         </div>
-      </div>
+
+        {this.renderParameters(query)}
+
+        {this.renderOptions()}
+
+        <div className="gf-form">
+          <Switch
+            label="Explain"
+            labelClass="width-8"
+            tooltip="The query result is replaced by the execution plan of the query, including its map and reduce phases and the used indexes."
+            checked={this.props.query.explain || false}
+            onChange={this.onExplainChange}
+          />
+          <Button
+            className={css`
+              margin-left: 5px;
+            `}
+            type="button"
+            variant="secondary"
+            size="sm"
+            disabled={!query}
+            onClick={this.onShowPlan}
+          >
+            Show plan
+          </Button>
+          {this.state.plan !== undefined && (
+            <IconButton name="times" tooltip="Hide the execution plan" onClick={this.onHidePlan} />
+          )}
+        </div>
+
+        {this.state.plan !== undefined && (
+          <div className="gf-form">
+            <pre
+              className={css`
+                width: 100%;
+                white-space: pre-wrap;
+              `}
+            >
+              {this.state.plan}
+            </pre>
+          </div>
+        )}
+
+        {this.props.datasource.jsonData.resultCache === true && (
+          <div className="gf-form">
+            <Switch
+              label="Skip cache"
+              labelClass="width-8"
+              tooltip="The query result is always requested from Apache Ignite, rather than served from the result cache."
+              checked={this.props.query.skipCache || false}
+              onChange={this.onSkipCacheChange}
+            />
+          </div>
+        )}
+      </>
+    );
+  }
+
+  renderParameters(query?: string) {
+    const parameters = this.props.query.parameters || [];
+    const placeholders = countPlaceholders(query || '');
+    /*
+     * Each `?` placeholder of the query is bound to
+     * a parameter, in the order of the placeholders
+     */
+    return (
+      <>
+        {parameters.map((parameter, index) => (
+          <div className="gf-form-inline" key={parameter.id}>
+            <div className="gf-form">
+              <InlineFormLabel width={8} tooltip="The value of the placeholder with the same position.">
+                {`Parameter ${index + 1}`}
+              </InlineFormLabel>
+              <Select
+                width={16}
+                options={ParameterSource}
+                value={parameter.source}
+                onChange={(val: SelectableValue<ParameterSourceValue>) => {
+                  this.onParameterChange({ ...parameter, source: val.value || ParameterSourceValue.LITERAL });
+                }}
+              />
+            </div>
+            {(parameter.source === ParameterSourceValue.LITERAL ||
+              parameter.source === ParameterSourceValue.VARIABLE) && (
+              <FormField
+                label="Value"
+                labelWidth={5}
+                inputWidth={12}
+                value={parameter.value || ''}
+                placeholder={parameter.source === ParameterSourceValue.VARIABLE ? '$variable' : ''}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                  this.onParameterChange({ ...parameter, value: event.target.value });
+                }}
+              />
+            )}
+            <div className="gf-form">
+              <Select
+                width={14}
+                options={ParameterType}
+                value={parameter.type}
+                onChange={(val: SelectableValue<ParameterTypeValue>) => {
+                  this.onParameterChange({ ...parameter, type: val.value || ParameterTypeValue.STRING });
+                }}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="secondary"
+              icon="trash-alt"
+              onClick={() => this.onRemoveParameter(parameter)}
+            />
+          </div>
+        ))}
+
+        <div className="gf-form">
+          <Button type="button" variant="secondary" icon="plus" onClick={this.onAddParameter}>
+            Add parameter
+          </Button>
+          {placeholders !== parameters.length && (
+            <span
+              className={css`
+                margin-left: 10px;
+                align-self: center;
+              `}
+            >
+              {`The query contains ${placeholders} placeholder(s), but ${parameters.length} parameter(s) are defined.`}
+            </span>
+          )}
+        </div>
+      </>
+    );
+  }
+
+  renderOptions() {
+    const { schema, queryTimeout, pageSize } = this.props.query;
+    /*
+     * The switches show the effective option, i.e. the
+     * one of the query or the data source default
+     */
+    const options = this.props.datasource.getQueryOptions(this.props.query);
+    const defaults = this.props.datasource.jsonData;
+    return (
+      <>
+        <div className="gf-form-inline">
+          <div className="gf-form">
+            <InlineFormLabel
+              width={8}
+              tooltip="The execution options of the query; options that are not specified default to the ones of the data source."
+            >
+              Options
+            </InlineFormLabel>
+          </div>
+          <FormField
+            labelWidth={5}
+            inputWidth={10}
+            value={schema || ''}
+            onChange={this.onSchemaChange}
+            label="Schema"
+            placeholder={defaults.schema || 'PUBLIC'}
+            tooltip="The SQL schema of the query, sent as `schemaName`."
+          />
+          <FormField
+            labelWidth={6}
+            inputWidth={5}
+            type="number"
+            value={queryTimeout || ''}
+            onChange={this.onQueryTimeoutChange}
+            label="Timeout"
+            placeholder={defaults.queryTimeout ? String(defaults.queryTimeout) : ''}
+            tooltip="The time (in seconds) after which the query is cancelled; Apache Ignite applies it, if its REST API supports the `timeout` parameter, and further pages are not fetched after the timeout."
+          />
+          <FormField
+            labelWidth={6}
+            inputWidth={5}
+            type="number"
+            value={pageSize || ''}
+            onChange={this.onPageSizeChange}
+            label="Page size"
+            placeholder={String(defaults.pageSize || this.props.datasource.PAGE_SIZE)}
+            tooltip="The number of rows that are retrieved per request."
+          />
+        </div>
+
+        <div className="gf-form-inline">
+          <Switch
+            label="Distributed joins"
+            labelClass="width-8"
+            tooltip="Enables joins of non-collocated data."
+            checked={options.distributedJoins || false}
+            onChange={this.createOptionSwitchHandler('distributedJoins')}
+          />
+          <Switch
+            label="Enforce join order"
+            labelClass="width-9"
+            tooltip="Joins are executed in the order of the query. Not applied, if Apache Ignite's REST API does not support the `enforceJoinOrder` parameter."
+            checked={options.enforceJoinOrder || false}
+            onChange={this.createOptionSwitchHandler('enforceJoinOrder')}
+          />
+          <Switch
+            label="Replicated only"
+            labelClass="width-8"
+            tooltip="The query refers to replicated caches only. Not applied, if Apache Ignite's REST API does not support the `replicatedOnly` parameter."
+            checked={options.replicatedOnly || false}
+            onChange={this.createOptionSwitchHandler('replicatedOnly')}
+          />
+          <Switch
+            label="Lazy"
+            labelClass="width-4"
+            tooltip="Results are fetched lazily, to reduce the memory consumption of large results. Not applied, if Apache Ignite's REST API does not support the `lazy` parameter."
+            checked={options.lazy || false}
+            onChange={this.createOptionSwitchHandler('lazy')}
+          />
+        </div>
+      </>
     );
   }
 }
@@ -0,0 +1,200 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import React, { ChangeEvent, PureComponent } from 'react';
+import { css } from 'emotion';
+
+import { SelectableValue } from '@grafana/data';
+import { InlineFormLabel, LegacyForms, Select, TextArea } from '@grafana/ui';
+
+import { DataSource } from '../../data-source';
+import { IgniteVariableQuery, VariableQueryType, VariableQueryTypeValue } from '../../types';
+
+/**
+ * Form Field
+ */
+const { FormField } = LegacyForms;
+
+/**
+ * Editor Property
+ */
+interface Props {
+  datasource: DataSource;
+  query: IgniteVariableQuery;
+  onChange: (query: IgniteVariableQuery, definition: string) => void;
+}
+
+/**
+ * State
+ */
+interface State extends IgniteVariableQuery {}
+
+/*
+ * The variable query editor supports to populate dashboard
+ * variables with the names of caches, SQL tables or columns,
+ * or the values of an arbitrary SQL query.
+ */
+export class VariableQueryEditor extends PureComponent<Props, State> {
+  constructor(props: Props) {
+    super(props);
+    this.state = {
+      ...props.query,
+      queryType: props.query.queryType || VariableQueryTypeValue.CACHES,
+    };
+  }
+
+  /**
+   * The variable definition is a short description
+   * of the query that is shown in the variable list
+   */
+  getDefinition(query: IgniteVariableQuery): string {
+    switch (query.queryType) {
+      case VariableQueryTypeValue.TABLES:
+        return `tables(${query.cacheName || ''})`;
+      case VariableQueryTypeValue.COLUMNS:
+        return `columns(${query.cacheName || ''}, ${query.tableName || ''})`;
+      case VariableQueryTypeValue.SQL:
+        return query.query || '';
+      default:
+        return 'caches()';
+    }
+  }
+
+  /**
+   * Propagate the current state to the variable
+   */
+  onUpdate = (state: State) => {
+    this.props.onChange(state, this.getDefinition(state));
+  };
+
+  /**
+   * Query type change
+   *
+   * @param {SelectableValue<VariableQueryTypeValue>} val Value
+   */
+  onQueryTypeChange = (val: SelectableValue<VariableQueryTypeValue>) => {
+    const state = { ...this.state, queryType: val.value || VariableQueryTypeValue.CACHES };
+    this.setState(state);
+    this.onUpdate(state);
+  };
+
+  /**
+   * Change handler for text field
+   *
+   * @param {ChangeEvent<HTMLInputElement>} event Event
+   */
+  createTextFieldHandler = (name: keyof IgniteVariableQuery) => (event: ChangeEvent<HTMLInputElement>) => {
+    this.setState({ ...this.state, [name]: event.target.value });
+  };
+
+  /**
+   * Cache name change
+   */
+  onCacheNameChange = this.createTextFieldHandler('cacheName');
+
+  /**
+   * Table name change
+   */
+  onTableNameChange = this.createTextFieldHandler('tableName');
+
+  /**
+   * Query change
+   *
+   * @param {ChangeEvent<HTMLTextAreaElement>} event Event
+   */
+  onQueryChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
+    this.setState({ ...this.state, query: event.target.value });
+  };
+
+  /**
+   * Text fields are propagated when they lose the focus,
+   * to avoid running a query for every key stroke
+   */
+  onBlur = () => {
+    this.onUpdate(this.state);
+  };
+
+  render() {
+    const { queryType, cacheName, tableName, query } = this.state;
+    return (
+      <div className="gf-form-group">
+        <div className="gf-form">
+          <InlineFormLabel tooltip="" width={10}>
+            Query Type
+          </InlineFormLabel>
+          <Select
+            className={css`
+              margin-right: 5px;
+            `}
+            width={40}
+            options={VariableQueryType}
+            menuPlacement="bottom"
+            value={queryType}
+            onChange={this.onQueryTypeChange}
+          />
+        </div>
+
+        {queryType !== VariableQueryTypeValue.CACHES && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={10}
+              inputWidth={20}
+              value={cacheName || ''}
+              onChange={this.onCacheNameChange}
+              onBlur={this.onBlur}
+              label="Cache"
+              tooltip="Name of the data cache."
+            />
+          </div>
+        )}
+
+        {queryType === VariableQueryTypeValue.COLUMNS && (
+          <div className="gf-form">
+            <FormField
+              labelWidth={10}
+              inputWidth={20}
+              value={tableName || ''}
+              onChange={this.onTableNameChange}
+              onBlur={this.onBlur}
+              label="Table"
+              tooltip="Name of the SQL table."
+            />
+          </div>
+        )}
+
+        {queryType === VariableQueryTypeValue.SQL && (
+          <div className="gf-form">
+            <InlineFormLabel
+              tooltip="The first column, or the columns __text and __value, provide the variable options."
+              width={10}
+            >
+              SQL Query
+            </InlineFormLabel>
+            <TextArea
+              css=""
+              value={query || ''}
+              className="gf-form-input"
+              onChange={this.onQueryChange}
+              onBlur={this.onBlur}
+            />
+          </div>
+        )}
+      </div>
+    );
+  }
+}
@@ -0,0 +1,254 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { Endpoint } from './endpoints';
+
+/**
+ * The time the affinity information of a cache
+ * is reused before it is requested again
+ */
+export const AFFINITY_TTL = 60000;
+/**
+ * The node attributes that describe the REST
+ * (Jetty) addresses of a cluster node
+ */
+const REST_ADDRESSES = 'org.apache.ignite.rest.jetty.addrs';
+const REST_HOST_NAMES = 'org.apache.ignite.rest.jetty.hostnames';
+const REST_PORT = 'org.apache.ignite.rest.jetty.port';
+/**
+ * The affinity information of a cache: the endpoint
+ * that serves the primary owner of each partition, and
+ * the SQL column that determines the partition of a row.
+ */
+export interface CacheAffinity {
+  /**
+   * Number of partitions
+   *
+   * @type {number}
+   */
+  partitions: number;
+  /**
+   * Endpoint of the primary owner per partition;
+   * owners without configured endpoint are missing
+   *
+   * @type {Map<number, Endpoint>}
+   */
+  owners: Map<number, Endpoint>;
+  /**
+   * The SQL column that determines the partition,
+   * i.e. the affinity key column or the key column
+   *
+   * @type {string}
+   */
+  keyColumn?: string;
+  /**
+   * The Java type of the key column, if the
+   * partition is determined by the key itself
+   *
+   * @type {string}
+   */
+  keyType?: string;
+  /**
+   * Expiry time
+   *
+   * @type {number}
+   */
+  expires: number;
+}
+/**
+ * A helper method to compute Java's `String.hashCode`
+ */
+function stringHashCode(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (Math.imul(31, hash) + value.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
+/**
+ * A helper method to compute Java's `Long.hashCode`, i.e.
+ * `(int) (value ^ (value >>> 32))`, for a decimal string;
+ * the value is represented as four 16-bit words, as the
+ * plugin cannot rely on 64-bit integer support.
+ */
+function longHashCode(value: string): number {
+  const negative = value.startsWith('-');
+  const digits = negative ? value.slice(1) : value;
+
+  const words = [0, 0, 0, 0];
+  for (let i = 0; i < digits.length; i++) {
+    let carry = Number(digits[i]);
+    for (let j = 0; j < words.length; j++) {
+      const word = words[j] * 10 + carry;
+      words[j] = word & 0xffff;
+      carry = Math.floor(word / 0x10000);
+    }
+  }
+  if (negative) {
+    /*
+     * Two's complement of the magnitude
+     */
+    let carry = 1;
+    for (let j = 0; j < words.length; j++) {
+      const word = (~words[j] & 0xffff) + carry;
+      words[j] = word & 0xffff;
+      carry = word >>> 16;
+    }
+  }
+
+  const high = (words[3] << 16) | words[2];
+  const low = (words[1] << 16) | words[0];
+  return (high ^ low) | 0;
+}
+/**
+ * This method computes the Java `hashCode` of a key that is
+ * provided as string; numeric keys are hashed as `Integer`,
+ * or as `Long` if declared or if they exceed the integer
+ * range. Composite keys (BinaryObjects) are not supported.
+ */
+export function javaHashCode(key: string, keyType?: string): number | undefined {
+  const type = (keyType || '').toLowerCase();
+  if (type === 'string' || type === 'java.lang.string') {
+    return stringHashCode(key);
+  }
+  if (!/^-?\d+$/.test(key)) {
+    return type === '' ? stringHashCode(key) : undefined;
+  }
+
+  const value = Number(key);
+  if (type === 'long' || type === 'java.lang.long' || value > 2147483647 || value < -2147483648) {
+    return longHashCode(key);
+  }
+  if (type === '' || type === 'int' || type === 'integer' || type === 'java.lang.integer') {
+    return value;
+  }
+
+  return undefined;
+}
+/**
+ * This method computes the partition of a key hash in
+ * compliance with Apache Ignite's RendezvousAffinityFunction
+ */
+export function partitionOf(hash: number, partitions: number): number {
+  const mask = (partitions & (partitions - 1)) === 0 ? partitions - 1 : -1;
+  if (mask >= 0) {
+    return (hash ^ (hash >>> 16)) & mask;
+  }
+  return Math.abs(hash % partitions);
+}
+/**
+ * This method determines the endpoint that serves the
+ * primary owner of the partition of the provided key
+ */
+export function ownerOf(affinity: CacheAffinity, key: string, keyType?: string): Endpoint | undefined {
+  const hash = javaHashCode(key, keyType);
+  if (hash === undefined || affinity.partitions <= 0) {
+    return undefined;
+  }
+
+  return affinity.owners.get(partitionOf(hash, affinity.partitions));
+}
+/**
+ * This method determines the configured endpoints that refer
+ * to the nodes of the cluster topology, by comparing the urls
+ * of the endpoints with the REST addresses of the nodes; the
+ * endpoints are mapped by (lower case) node id.
+ */
+export function mapNodesToEndpoints(nodes: any[], endpoints: Endpoint[]): Map<string, Endpoint> {
+  const mapping = new Map<string, Endpoint>();
+  nodes.forEach((node) => {
+    const attributes = node.attributes || {};
+    const port = String(attributes[REST_PORT] || '');
+
+    const hosts = new Set<string>(
+      [
+        ...toList(attributes[REST_ADDRESSES]),
+        ...toList(attributes[REST_HOST_NAMES]),
+        ...toList(node.tcpAddresses),
+        ...toList(node.tcpHostNames),
+      ].map((host) => host.toLowerCase())
+    );
+
+    const endpoint = endpoints.find((e) => {
+      const url = parseUrl(e.name);
+      if (url === undefined) {
+        return false;
+      }
+      const urlPort = url.port || (url.protocol === 'https:' ? '443' : '80');
+      return urlPort === port && hosts.has(url.hostname.toLowerCase());
+    });
+    if (endpoint !== undefined) {
+      mapping.set(String(node.nodeId).toLowerCase(), endpoint);
+    }
+  });
+
+  return mapping;
+}
+/**
+ * This method extracts the literal of an equality predicate
+ * on the provided column from an SQL query, e.g. `ID = 42` or
+ * `p.NAME = 'abc'`; queries with several predicates on this
+ * column, or with `OR` conditions, are not routed.
+ */
+export function findKeyLiteral(sql: string, column: string): string | undefined {
+  if (/\bOR\b/i.test(sql)) {
+    return undefined;
+  }
+
+  const name = column.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(?:^|[^\\w.])(?:\\w+\\.)?"?${name}"?\\s*=\\s*('(?:[^']|'')*'|-?\\d+)(?!\\w)`, 'gi');
+
+  const literals: string[] = [];
+  let match;
+  while ((match = pattern.exec(sql)) !== null) {
+    literals.push(match[1]);
+  }
+  if (literals.length !== 1) {
+    return undefined;
+  }
+
+  const literal = literals[0];
+  return literal.startsWith("'") ? literal.slice(1, -1).replace(/''/g, "'") : literal;
+}
+/**
+ * A helper method to normalize node attributes
+ * that are either lists or comma-separated values
+ */
+function toList(value: any): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => String(v));
+  }
+  return String(value)
+    .replace(/[\[\]]/g, '')
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v) => v !== '');
+}
+/**
+ * A helper method to parse an endpoint url
+ */
+function parseUrl(url: string): URL | undefined {
+  try {
+    return new URL(url);
+  } catch (err) {
+    return undefined;
+  }
+}
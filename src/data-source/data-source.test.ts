@@ -0,0 +1,207 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { DataQueryRequest, DataSourceInstanceSettings, dateTime, LoadingState } from '@grafana/data';
+import { getBackendSrv } from '@grafana/runtime';
+import { NEVER, Observable, of } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import { DataSource } from './data-source';
+import { FormatTypeValue, IgniteDataSourceOptions, IgniteQuery } from '../types';
+
+jest.mock('@grafana/runtime', () => ({
+  getBackendSrv: jest.fn(),
+  getTemplateSrv: () => ({ replace: (value: string) => value }),
+}));
+
+/**
+ * The results of the SQL queries, by query
+ */
+const RESULTS: Record<string, { fieldsMetadata: any[]; items: any[][] }> = {
+  'SELECT name, age FROM Person': {
+    fieldsMetadata: [
+      { fieldName: 'NAME', fieldTypeName: 'java.lang.String', typeName: 'PERSON' },
+      { fieldName: 'AGE', fieldTypeName: 'java.lang.Integer', typeName: 'PERSON' },
+    ],
+    items: [
+      ['John', 42],
+      ['Jane', 37],
+    ],
+  },
+  'SELECT name FROM City': {
+    fieldsMetadata: [{ fieldName: 'NAME', fieldTypeName: 'java.lang.String', typeName: 'CITY' }],
+    items: [['Berlin'], ['Paris'], ['Rome']],
+  },
+};
+
+/**
+ * A mocked Apache Ignite REST API, that answers the
+ * topology and SQL fields queries
+ */
+const respond = (req: any): Observable<any> => {
+  if (req.url.endsWith('cmd=top')) {
+    return of({
+      data: { successStatus: 0, response: [{ caches: [{ name: 'Person' }, { name: 'City' }] }] },
+    });
+  }
+
+  const qry = decodeURIComponent(/(?:^|&)qry=([^&]*)/.exec(req.data)![1].replace(/\+/g, ' '));
+  if (qry.includes('SLOW')) {
+    return NEVER;
+  }
+  return of({
+    data: { successStatus: 0, response: { ...RESULTS[qry], last: true, queryId: 1 } },
+  });
+};
+
+const createDataSource = () =>
+  new DataSource(({
+    id: 1,
+    name: 'Ignite',
+    url: '/api/datasources/proxy/1',
+    jsonData: {},
+  } as unknown) as DataSourceInstanceSettings<IgniteDataSourceOptions>);
+
+const createRequest = (targets: IgniteQuery[]) => {
+  const from = dateTime(1614600000000);
+  const to = dateTime(1614603600000);
+  return ({
+    requestId: 'Q1',
+    targets,
+    range: { from, to, raw: { from, to } },
+    interval: '1m',
+    intervalMs: 60000,
+    scopedVars: {},
+  } as unknown) as DataQueryRequest<IgniteQuery>;
+};
+
+const targets: IgniteQuery[] = [
+  { refId: 'A', cacheName: 'Person', format: FormatTypeValue.TABLE, query: 'SELECT name, age FROM Person' },
+  { refId: 'B', cacheName: 'City', format: FormatTypeValue.TABLE, query: 'SELECT name FROM City' },
+];
+
+describe('DataSource.query', () => {
+  const fetch = jest.fn(respond);
+
+  beforeEach(() => {
+    fetch.mockClear();
+    fetch.mockImplementation(respond);
+    (getBackendSrv as jest.Mock).mockReturnValue({ fetch });
+  });
+
+  it('emits the frames of all targets with their refIds', async () => {
+    const responses = await createDataSource().query(createRequest(targets)).pipe(toArray()).toPromise();
+    const response = responses[responses.length - 1];
+
+    expect(response.state).toBe(LoadingState.Done);
+    expect(response.error).toBeUndefined();
+    expect(response.data.map((frame) => frame.refId)).toEqual(['A', 'B']);
+
+    const [person, city] = response.data;
+    expect(person.fields.map((field: any) => field.name)).toEqual(['NAME', 'AGE']);
+    expect(person.fields[0].values.toArray()).toEqual(['John', 'Jane']);
+    expect(person.fields[1].values.toArray()).toEqual([42, 37]);
+    expect(city.fields[0].values.toArray()).toEqual(['Berlin', 'Paris', 'Rome']);
+  });
+
+  it('emits the frames in the order of the targets, as targets complete', async () => {
+    const responses = await createDataSource()
+      .query(createRequest([...targets].reverse()))
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses.map((response) => response.state)).toEqual([LoadingState.Loading, LoadingState.Done]);
+    expect(responses[responses.length - 1].data.map((frame) => frame.refId)).toEqual(['B', 'A']);
+  });
+
+  it('reports a failed target without failing the others', async () => {
+    fetch.mockImplementation((req: any) =>
+      req.data && req.data.includes('City')
+        ? of({ data: { successStatus: 1, error: 'Table "CITY" not found' } })
+        : respond(req)
+    );
+
+    const responses = await createDataSource().query(createRequest(targets)).pipe(toArray()).toPromise();
+    const response = responses[responses.length - 1];
+
+    expect(response.data.map((frame) => frame.refId)).toEqual(['A', 'B']);
+    expect(response.data[0].length).toBe(2);
+    expect(response.error && response.error.refId).toBe('B');
+  });
+
+  it('releases the cancellations of completed targets', async () => {
+    const ds = createDataSource();
+    await ds.query(createRequest(targets)).toPromise();
+
+    expect(ds.cancellations.size).toBe(0);
+  });
+
+  it('releases the cancellations of unsubscribed targets', async () => {
+    const ds = createDataSource();
+    const slow = { ...targets[1], query: 'SELECT SLOW FROM City' };
+
+    const responses: any[] = [];
+    const subscription = ds.query(createRequest([targets[0], slow])).subscribe((response) => responses.push(response));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(responses[responses.length - 1].data.map((frame: any) => frame.refId)).toEqual(['A']);
+    expect(ds.cancellations.size).toBe(1);
+
+    subscription.unsubscribe();
+    expect(ds.cancellations.size).toBe(0);
+  });
+
+  it('aborts the page fetch and closes the cursor of targets unsubscribed mid-page', async () => {
+    let fetching = false;
+    let tornDown = false;
+    fetch.mockImplementation((req: any) => {
+      if (req.url.includes('cmd=qryfetch')) {
+        return new Observable(() => {
+          fetching = true;
+          return () => {
+            tornDown = true;
+          };
+        });
+      }
+      if (req.url.includes('cmd=qrycls')) {
+        return of({ data: { successStatus: 0, response: true } });
+      }
+      if (req.data && req.data.includes('PAGED')) {
+        return of({
+          data: { successStatus: 0, response: { ...RESULTS['SELECT name FROM City'], last: false, queryId: 7 } },
+        });
+      }
+      return respond(req);
+    });
+
+    const ds = createDataSource();
+    const paged = { ...targets[1], query: 'SELECT PAGED FROM City' };
+    const subscription = ds.query(createRequest([paged])).subscribe();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(fetching).toBe(true);
+    expect(tornDown).toBe(false);
+
+    subscription.unsubscribe();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(tornDown).toBe(true);
+    expect(
+      fetch.mock.calls.map(([req]: any[]) => req.url).filter((url: string) => url.includes('cmd=qrycls'))
+    ).toEqual([expect.stringContaining('qryId=7')]);
+  });
+});
@@ -16,32 +16,100 @@
  * @author Stefan Krusche, Dr. Krusche & Partner PartG
  *
  */
-import { Observable } from 'rxjs';
-import { cloneDeep } from 'lodash';
+import { from, Observable, of, Subject, throwError } from 'rxjs';
+import { catchError, finalize, mergeMap, takeUntil } from 'rxjs/operators';
+import { cloneDeep, flatten } from 'lodash';
 import {
+  AnnotationSupport,
+  CircularDataFrame,
   DataQueryRequest,
   DataQueryResponse,
   DataSourceApi,
   DataSourceInstanceSettings,
-  FieldType,
+  dateTime,
+  getDefaultTimeRange,
+  Labels,
+  LoadingState,
+  LogRowModel,
+  MetricFindValue,
   MutableDataFrame,
+  ScopedVars,
+  TimeRange,
 } from '@grafana/data';
 
 import { BackendSrvRequest, getBackendSrv } from '@grafana/runtime';
-import { FormatTypeValue, IgniteDataSourceOptions, IgniteQuery } from '../types';
+import {
+  CacheMetricValue,
+  FormatTypeValue,
+  IgniteDataSourceOptions,
+  IgniteHttpHeader,
+  IgniteQuery,
+  IgniteQueryOptions,
+  IgniteQueryResult,
+  IgniteVariableQuery,
+  QueryTypeValue,
+  VariableQueryTypeValue,
+} from '../types';
+import { AFFINITY_TTL, CacheAffinity, findKeyLiteral, mapNodesToEndpoints, ownerOf } from './affinity';
+import { Endpoint, EndpointPool } from './endpoints';
+import { MetadataCache } from './metadata';
+import { ResultCache } from './results';
+import { errorMessage, IgniteError, IgniteQueryError, SuccessStatus, toQueryError } from './errors';
+import { AnnotationQueryEditor } from '../components/annotation-query-editor';
+import { toAnnotationEvents } from '../utils/annotations';
+import { hasCacheMetrics, toCacheMetricsFrame, toSystemMetrics, toSystemMetricsQuery } from '../utils/caches';
+import { ConvertedField, convertResult } from '../utils/conversion';
+import { CacheEntry, toEntriesFrame } from '../utils/entries';
+import { parsePlan, PlanStep, toExplainQuery, toPlanFrame } from '../utils/explain';
+import {
+  DEFAULT_CONTEXT_LIMIT,
+  DEFAULT_LOG_LIMIT,
+  findMessageColumn,
+  LogContext,
+  LogContextOptions,
+  toContextFrames,
+  toContextQuery,
+  toLogFrames,
+  toPageQuery,
+  toPageRows,
+} from '../utils/logs';
+import { FORM_CONTENT_TYPE, toFormBody } from '../utils/form';
+import { expandMacros } from '../utils/macros';
+import { bindParameters, resolveTimeParameters } from '../utils/parameters';
+import { toNodeFrames } from '../utils/nodes';
+import {
+  appendToStream,
+  DEFAULT_STREAM_CAPACITY,
+  DEFAULT_STREAM_INTERVAL,
+  latestPosition,
+  newerThan,
+  StreamPosition,
+} from '../utils/streaming';
+import {
+  interpolateList,
+  interpolateParameters,
+  interpolateSql,
+  interpolateValue,
+  quoteLiteral,
+} from '../utils/variables';
 /**
  * The current implementation is intended to serve
  * as a show case of how to access Apache Ignite's
  * REST API from Grafana.
  *
- * Prepared, but not implemented yet:
+ * User authentication is supported by Apache Ignite's
+ * session tokens: the password is stored as encrypted
+ * secure data and added by Grafana's `auth` proxy route.
+ *
+ * Access tokens and secure custom HTTP headers are added
+ * by the Grafana server as well, to support API gateways
+ * in front of the Apache Ignite REST API.
  *
- * Support for user authentication and TLS. Parameters
- * `password` and TLS specific attributes are configured
- * to be stored as encrypted secure data.
+ * Prepared, but not implemented yet:
  *
- * Access to these attribute values (if specified) must be
- * implemented. The same holds for access token support.
+ * Support for TLS. TLS specific attributes are configured
+ * to be stored as encrypted secure data. Access to these
+ * attribute values (if specified) must be implemented.
  */
 export class DataSource extends DataSourceApi<IgniteQuery, IgniteDataSourceOptions> {
   jsonData: any;
@@ -50,6 +118,57 @@ export class DataSource extends DataSourceApi<IgniteQuery, IgniteDataSourceOptio
    * this can be increased to retrieve from result rows.
    */
   PAGE_SIZE = 1024;
+  /*
+   * The maximum number of result rows that is retrieved
+   * for a certain query, if not configured otherwise.
+   */
+  MAX_ROWS = 100000;
+  /*
+   * The configured Apache Ignite REST endpoints, including
+   * their health and the session tokens of the authenticated
+   * user, if user authentication is enabled.
+   */
+  endpoints: EndpointPool;
+  /*
+   * The affinity information of the caches, used to route
+   * key-based requests if partition awareness is enabled.
+   */
+  affinities = new Map<string, CacheAffinity>();
+  /*
+   * The cancellation signals of the pending query
+   * targets, identified by their request id
+   */
+  cancellations = new Map<string, Subject<void>>();
+  /*
+   * The cached cache names and SQL metadata
+   */
+  metadata: MetadataCache;
+  /*
+   * The cached SQL query results, if enabled
+   */
+  results?: ResultCache;
+  /*
+   * Annotations are retrieved by SQL queries; the columns
+   * `time`, `timeEnd`, `title`, `text` and `tags` of the
+   * result describe the annotations.
+   */
+  annotations: AnnotationSupport<IgniteQuery> = {
+    QueryEditor: AnnotationQueryEditor,
+    prepareQuery: (anno) => {
+      const target = anno.target;
+      if (target === undefined || !target.query) {
+        return undefined;
+      }
+      return {
+        ...target,
+        refId: 'Anno',
+        queryType: QueryTypeValue.SQL,
+        format: FormatTypeValue.TABLE,
+        streaming: false,
+      };
+    },
+    processEvents: (_anno, frames) => of(toAnnotationEvents(frames, this.jsonData.timeZone)),
+  };
   /**
    * Constructor
    *
@@ -58,17 +177,51 @@ export class DataSource extends DataSourceApi<IgniteQuery, IgniteDataSourceOptio
   constructor(private instanceSettings: DataSourceInstanceSettings<IgniteDataSourceOptions>) {
     super(instanceSettings);
     this.jsonData = this.instanceSettings.jsonData;
+    this.endpoints = new EndpointPool(this.jsonData.endpoints || [], this.jsonData.loadBalancing);
+    this.metadata = new MetadataCache(this.jsonData.metadataTtl);
+    if (this.jsonData.resultCache === true) {
+      this.results = new ResultCache(this.jsonData.resultCacheTtl, this.jsonData.resultCacheSize);
+    }
   }
 
-  async query(request: DataQueryRequest<IgniteQuery>): Promise<DataQueryResponse> {
+  /**
+   * This method executes the targets of a query request and
+   * emits the frames of each target as soon as they arrive.
+   *
+   * Unsubscribing, e.g. when the user changes the time range,
+   * cancels the in-flight HTTP requests of the pending targets;
+   * open query cursors are closed on the server side.
+   */
+  query(request: DataQueryRequest<IgniteQuery>): Observable<DataQueryResponse> {
+    return from(this._prepareTargets(request)).pipe(
+      mergeMap(({ targets, cacheErrors, resultKeys, rawTargets }) =>
+        this._runTargets(request, targets, cacheErrors, resultKeys, rawTargets)
+      )
+    );
+  }
+  /**
+   * This method determines the valid targets of a query
+   * request and checks whether the referenced caches exist.
+   */
+  async _prepareTargets(
+    request: DataQueryRequest<IgniteQuery>
+  ): Promise<{
+    targets: IgniteQuery[];
+    cacheErrors: Map<string, any>;
+    resultKeys: Map<string, string>;
+    rawTargets: Map<string, IgniteQuery>;
+  }> {
     /*
      * STEP #1: Check whether valid request targets exist,
      * i.e. those with a properly defined cache name, and
      * in case of time series requests, those with a specified
      * time column.
      */
-    const targets = cloneDeep(request.targets);
+    const targets = this.interpolateVariablesInQueries(cloneDeep(request.targets), request.scopedVars);
     let filtered = targets.filter((t) => {
+      if (!this.usesCache(t)) {
+        return true;
+      }
       if (t.cacheName === undefined || t.cacheName === '') {
         return false;
       } else {
@@ -79,11 +232,17 @@ export class DataSource extends DataSourceApi<IgniteQuery, IgniteDataSourceOptio
      * Check time column
      */
     filtered = filtered.filter((t) => {
+      /*
+       * Key-value queries always result in tables
+       */
+      if (!this.isSqlQuery(t)) {
+        return true;
+      }
       const format = t.format;
       if (format === undefined) {
         return false;
       }
-      if (format === FormatTypeValue.TIMESERIES) {
+      if (format === FormatTypeValue.TIMESERIES || format === FormatTypeValue.LOGS) {
         if (t.timeColumn === undefined || t.timeColumn === '') {
           return false;
         } else {
@@ -97,259 +256,1604 @@ export class DataSource extends DataSourceApi<IgniteQuery, IgniteDataSourceOptio
      * Check query
      */
     filtered = filtered.filter((t) => {
-      if (t.query === undefined || t.query === '') {
-        return false;
-      } else {
-        return true;
+      switch (t.queryType) {
+        case QueryTypeValue.GET:
+          return t.key !== undefined && t.key !== '';
+        case QueryTypeValue.GET_ALL:
+          return t.keys !== undefined && t.keys !== '';
+        case QueryTypeValue.SCAN:
+          return true;
+        case QueryTypeValue.NODES:
+          return t.nodeMetrics !== undefined && t.nodeMetrics.length > 0;
+        case QueryTypeValue.CACHE_METRICS:
+          return t.cacheMetrics !== undefined && t.cacheMetrics.length > 0;
+        default:
+          return t.query !== undefined && t.query !== '';
       }
     });
 
     if (filtered.length === 0) {
-      throw 'Please check your query configuration. No valid query targets found.';
-    } else {
-      /*
-       * STEP #2: Check whether the provided caches exists;
-       * this is achieved by requesting Apache Ignite REST
-       * API to check existence.
-       */
-      const caches = filtered.map((t) => {
-        return t.cacheName;
+      throw new Error('Please check your query configuration. No valid query targets found.');
+    }
+    /*
+     * STEP #2: Check whether the provided caches exists;
+     * known caches are taken from the metadata cache, and
+     * the existence of the others is checked by requesting
+     * Apache Ignite REST API. A missing cache fails the
+     * targets that refer to it only.
+     */
+    const caches = Array.from(
+      new Set(
+        flatten(
+          filtered
+            .filter((t) => this.usesCache(t))
+            .map((t) => {
+              return this.getCacheNames(t);
+            })
+        )
+      )
+    );
+    /*
+     * Without metadata cache, the cache names are not
+     * requested, as this would add another round trip
+     */
+    const knownCaches = this.metadata.ttl > 0 ? await this._getCacheNames().catch(() => [] as string[]) : [];
+    /*
+     * Combine all individual cache get requests
+     */
+    const cacheErrors = new Map<string, any>();
+    await Promise.all(
+      caches
+        .filter((c) => !knownCaches.includes(c))
+        .map((c) => {
+          const requestUrl = '/ignite?cmd=size&cacheName=' + encodeURIComponent(c);
+          return this._getResponse(requestUrl).catch((err) => {
+            /*
+             * Authentication and network failures are reported
+             * as such, rather than as missing caches
+             */
+            const missing = !(err instanceof IgniteError) || (!err.isAuthError() && !err.network);
+            cacheErrors.set(
+              c,
+              missing ? new IgniteError(`Cache '${c}' does not exist: ${errorMessage(err)}`, SuccessStatus.FAILED) : err
+            );
+          });
+        })
+    );
+    /*
+     * STEP #3: The Apache Ignite REST API can be called
+     * to compute the query results.
+     *
+     * The keys of cached results are built before the macros
+     * are expanded, as they refer to the aligned time range.
+     */
+    /*
+     * Logs queries retain their unexpanded query and time
+     * range parameters, as the context of a log line is
+     * requested beyond the time range of the request
+     */
+    const rawTargets = new Map<string, IgniteQuery>();
+    filtered
+      .filter((t) => this.isSqlQuery(t) && t.format === FormatTypeValue.LOGS)
+      .forEach((t) => {
+        rawTargets.set(t.refId, { ...t });
+      });
+    /*
+     * Logs queries are restricted to a page of log lines,
+     * i.e. the latest ones before the cursor of the query
+     */
+    filtered
+      .filter((t) => this.isSqlQuery(t) && t.format === FormatTypeValue.LOGS && t.explain !== true)
+      .forEach((t) => {
+        t.query = toPageQuery(t.query || '', t.timeColumn || '', t.logLimit, t.logCursor, this.jsonData.timeZone);
+      });
+
+    const resultKeys = new Map<string, string>();
+    const results = this.results;
+    if (results !== undefined) {
+      filtered
+        .filter((t) => this.isSqlQuery(t) && !this.isStreaming(t) && t.explain !== true && t.skipCache !== true)
+        .forEach((t) => {
+          const key = results.key(
+            t.cacheName || '',
+            t.query || '',
+            t.format,
+            request.range,
+            request.intervalMs,
+            t.parameters,
+            this.getQueryOptions(t)
+          );
+          resultKeys.set(t.refId, key);
+        });
+    }
+    /*
+     * Grafana's time range macros and parameters are
+     * expanded to leverage the time range of the request;
+     * streaming queries expand them for each poll.
+     */
+    filtered
+      .filter((t) => this.isSqlQuery(t) && !this.isStreaming(t))
+      .forEach((t) => {
+        t.query = expandMacros(t.query || '', {
+          range: request.range,
+          interval: request.interval,
+          intervalMs: request.intervalMs,
+          timeZone: this.jsonData.timeZone,
+        });
+        t.parameters = resolveTimeParameters(t.parameters, request.range);
       });
+
+    return { targets: filtered, cacheErrors, resultKeys, rawTargets };
+  }
+  /**
+   * This method runs the prepared targets concurrently and
+   * emits the assembled frames, in the order of the targets,
+   * whenever a target completes.
+   */
+  _runTargets(
+    request: DataQueryRequest<IgniteQuery>,
+    targets: IgniteQuery[],
+    cacheErrors: Map<string, any>,
+    resultKeys: Map<string, string>,
+    rawTargets: Map<string, IgniteQuery>
+  ): Observable<DataQueryResponse> {
+    return new Observable<DataQueryResponse>((subscriber) => {
+      const results: MutableDataFrame[][] = [];
+      const errors: IgniteQueryError[] = [];
+      const pending = new Set<string>();
       /*
-       * Combine all individual cache get requests
+       * The targets that have not provided frames yet, the
+       * streaming targets that are still polling, and the
+       * targets that have not completed
        */
-      const response = await Promise.all(
-        caches.map((c) => {
-          const requestUrl = '/ignite?cmd=size&cacheName=' + c;
-          return this._get(requestUrl, { hideFromInspector: false }).toPromise();
-        })
-      );
-      const errors = response.filter((r) => {
-        return r.successStatus !== 0 || r.error !== '';
-      });
-      if (errors.length !== 0) {
-        throw 'At least one of the provided caches does not exist.';
-      } else {
+      const loading = new Set<number>(targets.map((_t, index) => index));
+      const streams = new Set<number>();
+      const active = new Set<number>(targets.map((_t, index) => index));
+
+      const emit = () => {
         /*
-         * STEP #3: All specified caches exist and the Apache Ignite REST API
-         * can be called to compute the query results.
+         * A single query may result in multiple series; Grafana
+         * supports a single error per response, which is the one
+         * of the first failed target. The errors of all targets
+         * are provided as notices of their (empty) frames.
          */
-        const promises = filtered.map((t) => {
-          /*
-           * Build core request url and use the predefined
-           * page size to determine the number of results.
-           */
-          let requestUrl = '/ignite?cmd=qryfldexe&cacheName=' + t.cacheName + '&pageSize=' + this.PAGE_SIZE;
-          /*
-           * Append encoded SQL query: Using URI encoding encodes
-           * a white as `%20` while Apache Ignite requires `+`.
-           */
-          const query = encodeURIComponent(t.query || '').replace('%20', '+');
-          requestUrl = requestUrl + '&qry=' + query;
+        const error = targets.map((q) => errors.find((e) => e.refId === q.refId)).find((e) => e !== undefined);
+        const response: DataQueryResponse = {
+          data: flatten(results.filter((r) => r !== undefined)),
+          state:
+            loading.size > 0 ? LoadingState.Loading : streams.size > 0 ? LoadingState.Streaming : LoadingState.Done,
+        };
+        if (error !== undefined) {
+          response.error = error;
+        }
+
+        subscriber.next(response);
+      };
+
+      const subscriptions = targets.map((t, index) => {
+        /*
+         * The HTTP requests of a target are identified by a
+         * request id that is derived from the one of the query
+         * request; they are executed one after the other.
+         */
+        const requestId = `${request.requestId}_${t.refId}`;
+        this.cancellations.set(requestId, new Subject<void>());
+        pending.add(requestId);
+
+        let frames: Observable<MutableDataFrame[]>;
+        const cacheName = this.usesCache(t) ? this.getCacheNames(t).find((c) => cacheErrors.has(c)) : undefined;
+        if (cacheName !== undefined) {
+          frames = throwError(cacheErrors.get(cacheName));
+        } else if (this.isStreaming(t)) {
+          streams.add(index);
+          frames = this._streamQuery(request, t, requestId);
+        } else {
+          frames = from(this._runQuery(t, requestId, resultKeys.get(t.refId), rawTargets.get(t.refId)));
+        }
 
-          this._get(requestUrl, { hideFromInspector: false })
-            .toPromise()
-            .then((result) => {
+        return frames
+          .pipe(
+            catchError((err) => {
               /*
-               * Check whether the result has errors;
-               * in this, the fields are set empty
+               * The query failed; the error is reported for this
+               * target only, and the other targets still render
                */
-              if (result.successStatus !== 0 || result.error !== '') {
-                const frame = new MutableDataFrame({
-                  refId: t.refId,
-                  fields: [],
-                });
-
-                return frame;
-              } else {
-                /*
-                 * This is a valid query response: the metadata
-                 * are used to specify the fields of the Grafana
-                 * dataframe
-                 */
-                const metadata = result.response.fieldsMetadata;
-                const frame = new MutableDataFrame({
-                  refId: t.refId,
-                  fields: this.getFields(metadata),
-                });
-                const rows = result.response.items;
-                rows.forEach((row: any[]) => {
-                  frame.appendRow(row);
-                });
-
-                return frame;
+              const error = toQueryError(t.refId, err, this.isSqlQuery(t) ? t.query : undefined);
+              errors.push(error);
+              streams.delete(index);
+
+              return of([this.toErrorFrame(error)]);
+            }),
+            /*
+             * The cancellation of a target is released when it
+             * completes, fails or is unsubscribed, e.g. when a
+             * dashboard is refreshed or closed
+             */
+            finalize(() => this.cancellations.delete(requestId))
+          )
+          .subscribe({
+            next: (targetFrames) => {
+              results[index] = targetFrames;
+              loading.delete(index);
+              emit();
+            },
+            complete: () => {
+              pending.delete(requestId);
+
+              streams.delete(index);
+              active.delete(index);
+              if (active.size === 0) {
+                subscriber.complete();
               }
-            });
-        });
+            },
+          });
+      });
 
-        return Promise.all(promises).then((data) => ({ data }));
-      }
-    }
+      return () => {
+        /*
+         * Cancel the pending targets: in-flight requests are
+         * aborted, subsequent requests are not sent, and the
+         * streaming targets stop polling
+         */
+        pending.forEach((requestId) => {
+          const cancellation = this.cancellations.get(requestId);
+          if (cancellation !== undefined) {
+            cancellation.next();
+            cancellation.complete();
+          }
+        });
+        subscriptions.forEach((subscription) => subscription.unsubscribe());
+      };
+    });
   }
-  /*
-   * A helper method to extract the field name
-   * and type from the metadata provided with
-   * the response
+  /**
+   * This method runs a streaming time series query: the query
+   * is executed for the time range of the request, and then
+   * polled for rows that are newer than the latest value of the
+   * time column. The rows are appended to bounded (circular)
+   * frames, which are emitted after each poll with new rows.
    */
-  getFields(metadata: any[]): any[] {
-    /*
-     * Example:
-     *
-     * "fieldsMetadata": [
-     * {
-     * "fieldName": "FIRSTNAME",
-     * "fieldTypeName": "java.lang.String",
-     * "schemaName": "person",
-     * "typeName": "PERSON"
-     * },
-     * {
-     * "fieldName": "LASTNAME",
-     * "fieldTypeName": "java.lang.String",
-     * "schemaName": "person",
-     * "typeName": "PERSON"
-     * }
-     * ],
-     *
-     * For more information: https://ignite.apache.org/docs/latest/restapi#sql-fields-query-execute
-     */
-    return metadata.map((field) => {
-      const fieldName = field.fieldName;
-
-      let fieldType;
-      switch (field.fieldTypeName) {
-        case 'java.lang.Boolean': {
-          fieldType = FieldType.boolean;
-          break;
-        }
-        case 'java.lang.Byte': {
-          fieldType = FieldType.number;
-          break;
-        }
-        case 'java.lang.Double': {
-          fieldType = FieldType.number;
-          break;
-        }
-        case 'java.lang.Float': {
-          fieldType = FieldType.number;
-          break;
-        }
-        case 'java.lang.Integer': {
-          fieldType = FieldType.number;
-          break;
-        }
-        case 'java.lang.Long': {
-          fieldType = FieldType.number;
-          break;
+  _streamQuery(
+    request: DataQueryRequest<IgniteQuery>,
+    t: IgniteQuery,
+    requestId: string
+  ): Observable<MutableDataFrame[]> {
+    return new Observable<MutableDataFrame[]>((subscriber) => {
+      const interval = (t.streamInterval || DEFAULT_STREAM_INTERVAL) * 1000;
+      const capacity = t.streamCapacity || DEFAULT_STREAM_CAPACITY;
+      const stream = new Map<string, CircularDataFrame>();
+
+      let timeColumn: string | undefined;
+      let position: StreamPosition | undefined;
+      let timer: any;
+
+      const poll = async () => {
+        /*
+         * The macros are expanded for a time range that ends
+         * now, as the rows of interest are appended after the
+         * request was issued
+         */
+        const range = { ...request.range, to: dateTime() };
+        let query = expandMacros(t.query || '', {
+          range,
+          interval: request.interval,
+          intervalMs: request.intervalMs,
+          timeZone: this.jsonData.timeZone,
+        });
+        if (timeColumn !== undefined && position !== undefined) {
+          query = newerThan(query, timeColumn, position);
         }
-        case 'java.lang.Short': {
-          fieldType = FieldType.number;
-          break;
+
+        const parameters = resolveTimeParameters(t.parameters, range);
+        const result = await this._fetchAll({ ...t, query, parameters }, requestId);
+        await this._resolveFieldTypes(t.cacheName || '', result);
+
+        if (stream.size > 0 && result.items.length === 0) {
+          return;
         }
-        case 'java.lang.String': {
-          fieldType = FieldType.string;
-          break;
+
+        const since = position !== undefined ? position.time : undefined;
+
+        timeColumn = this.getColumn(t, result.fieldsMetadata, t.timeColumn || '', 'time');
+        const timeIndex = result.fieldsMetadata.findIndex((field) => field.fieldName === timeColumn);
+        position = latestPosition(
+          result.items,
+          timeIndex,
+          result.fieldsMetadata[timeIndex].fieldTypeName,
+          this.jsonData.timeZone,
+          position
+        );
+
+        subscriber.next(appendToStream(stream, this.toDataFrames(t, result), capacity, since));
+      };
+
+      const run = () => {
+        poll().then(
+          () => schedule(),
+          (err) => {
+            /*
+             * A failure of the initial query fails the target;
+             * later failures are reported as notice, and the
+             * stream continues with the next poll
+             */
+            if (stream.size === 0) {
+              subscriber.error(err);
+              return;
+            }
+
+            const frames = Array.from(stream.values());
+            frames.forEach((frame) => {
+              frame.meta = {
+                ...frame.meta,
+                notices: [{ severity: 'warning', text: `Streaming failed: ${errorMessage(err)}` }],
+              };
+            });
+            subscriber.next(frames);
+            schedule();
+          }
+        );
+      };
+
+      const schedule = () => {
+        if (!subscriber.closed) {
+          timer = setTimeout(run, interval);
         }
-        case 'java.sql.Date': {
+      };
+
+      run();
+      return () => clearTimeout(timer);
+    });
+  }
+  /*
+   * A helper method to represent a failed target
+   * as an empty frame with an error notice
+   */
+  toErrorFrame(error: IgniteQueryError): MutableDataFrame {
+    return new MutableDataFrame({
+      refId: error.refId,
+      fields: [],
+      meta: {
+        notices: [{ severity: 'error', text: error.message || '' }],
+        custom: { error },
+      },
+    });
+  }
+  /**
+   * This method replaces the dashboard variables in the
+   * cache name, keys and the SQL query of the provided
+   * queries; it is also used by Grafana's Explore and
+   * panel links.
+   */
+  interpolateVariablesInQueries(queries: IgniteQuery[], scopedVars: ScopedVars): IgniteQuery[] {
+    return queries.map((q) => {
+      return {
+        ...q,
+        cacheName: q.cacheName ? this.interpolateCacheName(q, scopedVars) : q.cacheName,
+        key: q.key ? interpolateValue(q.key, scopedVars) : q.key,
+        keys: q.keys ? interpolateList(q.keys, scopedVars) : q.keys,
+        query: q.query ? interpolateSql(q.query, scopedVars) : q.query,
+        parameters: q.parameters ? interpolateParameters(q.parameters, scopedVars) : q.parameters,
+      };
+    });
+  }
+  /*
+   * A helper method to replace the dashboard variables in
+   * the cache name; cache metrics queries support multiple
+   * caches, e.g. selected by a multi-value variable.
+   */
+  interpolateCacheName(q: IgniteQuery, scopedVars: ScopedVars): string {
+    if (q.queryType === QueryTypeValue.CACHE_METRICS) {
+      return interpolateList(q.cacheName || '', scopedVars);
+    }
+    return interpolateValue(q.cacheName || '', scopedVars);
+  }
+  /*
+   * A helper method to determine the names of the
+   * caches a query refers to
+   */
+  getCacheNames(t: IgniteQuery): string[] {
+    if (t.queryType === QueryTypeValue.CACHE_METRICS) {
+      return (t.cacheName || '')
+        .split(',')
+        .map((name) => name.trim())
+        .filter((name) => name !== '');
+    }
+    return [t.cacheName || ''];
+  }
+  /*
+   * A helper method to determine whether a query
+   * is an SQL query; this is the default
+   */
+  isSqlQuery(t: IgniteQuery): boolean {
+    return t.queryType === undefined || t.queryType === QueryTypeValue.SQL;
+  }
+  /*
+   * A helper method to determine whether a query is
+   * a streaming time series query
+   */
+  isStreaming(t: IgniteQuery): boolean {
+    return this.isSqlQuery(t) && t.format === FormatTypeValue.TIMESERIES && t.streaming === true && t.explain !== true;
+  }
+  /*
+   * A helper method to determine whether a query refers
+   * to a certain cache; cluster queries do not.
+   */
+  usesCache(t: IgniteQuery): boolean {
+    return t.queryType !== QueryTypeValue.NODES;
+  }
+  /**
+   * This method executes a single query with respect
+   * to its query type and transforms the result into
+   * Grafana dataframes.
+   */
+  async _runQuery(
+    t: IgniteQuery,
+    requestId?: string,
+    resultKey?: string,
+    rawTarget?: IgniteQuery
+  ): Promise<MutableDataFrame[]> {
+    switch (t.queryType) {
+      case QueryTypeValue.GET: {
+        const { entries, endpoint } = await this._getEntries(t, [t.key || ''], requestId);
+        return this.withMeta([toEntriesFrame(t.refId, entries)], { endpoint });
+      }
+      case QueryTypeValue.GET_ALL: {
+        const keys = (t.keys || '')
+          .split(',')
+          .map((key) => key.trim())
+          .filter((key) => key !== '');
+
+        const { entries, endpoint } = await this._getEntries(t, keys, requestId);
+        return this.withMeta([toEntriesFrame(t.refId, entries)], { endpoint });
+      }
+      case QueryTypeValue.SCAN: {
+        const pageSize = this.getQueryOptions(t).pageSize || this.PAGE_SIZE;
+        const requestUrl =
+          '/ignite?cmd=qryscanexe&cacheName=' + encodeURIComponent(t.cacheName || '') + '&pageSize=' + pageSize;
+        const result = await this._fetchPages(requestUrl, undefined, requestId, undefined, pageSize);
+
+        const frames = [toEntriesFrame(t.refId, result.items as any[])];
+        return this.withMeta(frames, result);
+      }
+      case QueryTypeValue.NODES: {
+        const nodes: any[] = (await this._getResponse('/ignite?cmd=top&attr=true&mtr=true', { requestId })) || [];
+        const attributes = (t.nodeAttributes || '')
+          .split(',')
+          .map((attribute) => attribute.trim())
+          .filter((attribute) => attribute !== '');
+
+        return toNodeFrames(t.refId, nodes, t.nodeMetrics || [], attributes, Date.now());
+      }
+      case QueryTypeValue.CACHE_METRICS: {
+        const metrics = t.cacheMetrics || [];
+        const time = Date.now();
+
+        /*
+         * The caches are requested one after the other, as
+         * the requests of a target share their request id
+         */
+        const frames: MutableDataFrame[] = [];
+        for (const cacheName of this.getCacheNames(t)) {
+          const name = encodeURIComponent(cacheName);
           /*
-           * The current mapping interprets a `Date`
-           * value as `string`:
-           *
-           * Example: 2018-01-01
+           * The cache size and metrics are only requested,
+           * if at least one of the selected metrics needs it
            */
-          fieldType = FieldType.string;
-          break;
-        }
-        case 'java.sql.Time': {
+          const size = metrics.includes(CacheMetricValue.SIZE)
+            ? await this._getResponse('/ignite?cmd=size&cacheName=' + name, { requestId })
+            : null;
+          const cacheMetrics = hasCacheMetrics(metrics)
+            ? await this._getResponse('/ignite?cmd=cache&cacheName=' + name, { requestId })
+            : {};
           /*
-           * The current mapping interprets a `Time`
-           * value as `string`:
-           *
-           * Example: 01:01:01
+           * The other metrics are taken from the `SYS.METRICS`
+           * system view of the node that serves the request
            */
-          fieldType = FieldType.string;
-          break;
+          let systemMetrics: Record<string, any> = {};
+          const query = toSystemMetricsQuery(cacheName, metrics);
+          if (query !== undefined) {
+            const body = this._queryBody(cacheName, query.sql, query.args);
+            const result = await this._fetchPages('/ignite?cmd=qryfldexe', undefined, requestId, body);
+            systemMetrics = toSystemMetrics(cacheName, result.items);
+          }
+
+          frames.push(toCacheMetricsFrame(t.refId, cacheName, metrics, size, cacheMetrics || {}, systemMetrics, time));
         }
-        case 'java.sql.Timestamp': {
-          /*
-           * The current mapping interprets a `Timestamp`
-           * value as `string`:
-           *
-           * Example: 2018-02-18%2001:01:01
-           */
-          fieldType = FieldType.string;
-          break;
+        return frames;
+      }
+      default: {
+        /*
+         * Explained queries provide their execution plan
+         */
+        if (t.explain === true) {
+          const query = toExplainQuery(t.query || '');
+          const plan = await this._fetchAll({ ...t, query }, requestId);
+          return [toPlanFrame(t.refId, parsePlan(plan.items), query)];
         }
-        case 'java.lang.UUID': {
-          fieldType = FieldType.string;
-          break;
+        /*
+         * SQL query results are served from the result
+         * cache, if enabled and not skipped by the query
+         */
+        const cached = this.results !== undefined && resultKey ? this.results.get(resultKey) : undefined;
+        if (cached !== undefined) {
+          return this.toDataFrames(t, cached, rawTarget);
         }
-        case 'org.apache.ignite.lang.IgniteUuid': {
-          fieldType = FieldType.string;
-          break;
+
+        const result = await this._fetchAll(t, requestId);
+        await this._resolveFieldTypes(t.cacheName || '', result);
+
+        if (this.results !== undefined && resultKey) {
+          this.results.set(resultKey, result);
         }
-        default:
-          fieldType = FieldType.string;
+        return this.toDataFrames(t, result, rawTarget);
+      }
+    }
+  }
+  /**
+   * This method supports Grafana's dashboard variables and
+   * retrieves the names of caches, SQL tables or columns,
+   * or the values of an arbitrary SQL query.
+   */
+  async metricFindQuery(query: IgniteVariableQuery, options?: any): Promise<MetricFindValue[]> {
+    const scopedVars = options && options.scopedVars;
+    const cacheName = query.cacheName ? interpolateValue(query.cacheName, scopedVars) : '';
+
+    switch (query.queryType) {
+      case VariableQueryTypeValue.CACHES: {
+        const cacheNames = await this._getCacheNames();
+        return cacheNames.map((name) => ({ text: name }));
       }
+      case VariableQueryTypeValue.TABLES: {
+        const metadata = await this._getMetadata(cacheName);
+        return (metadata.types || []).map((type: string) => ({ text: type }));
+      }
+      case VariableQueryTypeValue.COLUMNS: {
+        const metadata = await this._getMetadata(cacheName);
+        const tableName = query.tableName ? interpolateValue(query.tableName, scopedVars) : '';
 
-      return {
-        name: fieldName,
-        type: fieldType,
+        const fields = (metadata.fields || {})[tableName] || {};
+        return Object.keys(fields).map((field) => ({ text: field }));
+      }
+      case VariableQueryTypeValue.SQL: {
+        if (!cacheName || !query.query) {
+          return [];
+        }
+        const range = (options && options.range) || getDefaultTimeRange();
+        const sql = expandMacros(interpolateSql(query.query, scopedVars), { range, timeZone: this.jsonData.timeZone });
+
+        const result = await this._fetchAll({
+          refId: 'metricFindQuery',
+          cacheName,
+          format: FormatTypeValue.TABLE,
+          query: sql,
+        });
+        return this.getMetricFindValues(result);
+      }
+      default:
+        return [];
+    }
+  }
+  /*
+   * A helper method to transform the result of an SQL
+   * query into variable values: the first column is used,
+   * unless the result contains `__text` and `__value`
+   * columns.
+   */
+  getMetricFindValues(result: IgniteQueryResult): MetricFindValue[] {
+    const names = result.fieldsMetadata.map((field) => String(field.fieldName).toLowerCase());
+
+    const textIndex = names.indexOf('__text');
+    const valueIndex = names.indexOf('__value');
+
+    return result.items.map((row) => {
+      if (textIndex === -1 || valueIndex === -1) {
+        const index = textIndex !== -1 ? textIndex : valueIndex !== -1 ? valueIndex : 0;
+        return { text: String(row[index]) };
+      }
+      return { text: String(row[textIndex]), value: row[valueIndex] };
+    });
+  }
+  /**
+   * This method transforms the result of an SQL query into
+   * Grafana dataframes. Time series results are sorted by
+   * their time column, and split into one series per label
+   * combination, if group by columns are specified. Logs
+   * results are transformed into log lines.
+   */
+  toDataFrames(t: IgniteQuery, result: IgniteQueryResult, rawTarget?: IgniteQuery): MutableDataFrame[] {
+    const timeSeries = t.format === FormatTypeValue.TIMESERIES || t.format === FormatTypeValue.LOGS;
+    /*
+     * The metadata are used to specify the fields of the
+     * Grafana dataframe, and to convert the values; time
+     * values are converted into epoch milliseconds
+     */
+    const timeField = timeSeries ? this.getColumn(t, result.fieldsMetadata, t.timeColumn || '', 'time') : undefined;
+    const converted = convertResult(result.fieldsMetadata, result.items, {
+      timeField,
+      timeZone: this.jsonData.timeZone,
+      overrides: this.jsonData.typeOverrides,
+    });
+
+    const fields = converted.fields;
+    const timeIndex = fields.findIndex((field) => field.name === timeField);
+
+    let rows = converted.rows;
+    if (timeIndex !== -1) {
+      rows = rows.sort((a, b) => (a[timeIndex] || 0) - (b[timeIndex] || 0));
+    }
+
+    if (t.format === FormatTypeValue.LOGS) {
+      const frames = this.toLogs(t, result.fieldsMetadata, fields, rows, timeIndex, rawTarget);
+      return this.withMeta(frames, result);
+    }
+
+    const groupBy = (t.groupBy || '')
+      .split(',')
+      .map((column) => column.trim())
+      .filter((column) => column !== '');
+
+    let frames: MutableDataFrame[];
+    if (timeIndex !== -1 && groupBy.length > 0) {
+      const groupIndices = groupBy.map((column) => {
+        const name = this.getColumn(t, result.fieldsMetadata, column, 'group by');
+        return fields.findIndex((field) => field.name === name);
+      });
+      frames = this.toSeries(t, fields, rows, timeIndex, groupIndices);
+    } else {
+      const frame = new MutableDataFrame({
+        refId: t.refId,
+        fields: fields,
+      });
+      rows.forEach((row) => {
+        frame.appendRow(row);
+      });
+      frames = [frame];
+    }
+    return this.withMeta(frames, result);
+  }
+  /*
+   * A helper method to provide the endpoint that served
+   * a query with the frame meta, and to inform the user
+   * that the result set has been cut off at the configured
+   * maximum number of rows, or served from the result cache
+   */
+  withMeta(frames: MutableDataFrame[], result: Partial<IgniteQueryResult>): MutableDataFrame[] {
+    frames.forEach((frame) => {
+      frame.meta = {
+        ...frame.meta,
+        custom: { ...(frame.meta && frame.meta.custom), endpoint: result.endpoint },
       };
+      if (result.truncated) {
+        frame.meta.notices = [
+          ...(frame.meta.notices || []),
+          {
+            severity: 'warning',
+            text: `The query result was truncated to ${(result.items || []).length} rows.`,
+          },
+        ];
+        frame.meta.custom = { ...frame.meta.custom, truncated: true };
+      }
+      if (result.cachedAt !== undefined) {
+        const age = Math.round((Date.now() - result.cachedAt) / 1000);
+        frame.meta.notices = [
+          ...(frame.meta.notices || []),
+          {
+            severity: 'info',
+            text: `The query result was served from the cache (${age}s old).`,
+          },
+        ];
+        frame.meta.custom = { ...frame.meta.custom, cachedAt: result.cachedAt };
+      }
+    });
+
+    return frames;
+  }
+  /**
+   * This method converts a time series result in long form,
+   * i.e. (time, label columns, value columns), into one series
+   * per combination of label values. The label columns specify
+   * the labels of the value fields.
+   *
+   * Example:
+   *
+   * TS    HOST CPU        TS    CPU {HOST=a}    TS    CPU {HOST=b}
+   * 10:00 a    0.5   ->   10:00 0.5             10:00 0.7
+   * 10:00 b    0.7
+   */
+  toSeries(
+    t: IgniteQuery,
+    fields: any[],
+    rows: any[][],
+    timeIndex: number,
+    groupIndices: number[]
+  ): MutableDataFrame[] {
+    const valueIndices = fields
+      .map((_field, index) => index)
+      .filter((index) => index !== timeIndex && !groupIndices.includes(index));
+
+    const series = new Map<string, { labels: Labels; rows: any[][] }>();
+    rows.forEach((row) => {
+      const labels: Labels = {};
+      groupIndices.forEach((index) => {
+        labels[fields[index].name] = String(row[index]);
+      });
+
+      const key = JSON.stringify(labels);
+      if (!series.has(key)) {
+        series.set(key, { labels, rows: [] });
+      }
+      series.get(key)!.rows.push([row[timeIndex], ...valueIndices.map((index) => row[index])]);
+    });
+
+    return Array.from(series.values()).map((entry) => {
+      const frame = new MutableDataFrame({
+        refId: t.refId,
+        name: Object.values(entry.labels).join(' '),
+        fields: [
+          fields[timeIndex],
+          ...valueIndices.map((index) => {
+            return { ...fields[index], labels: entry.labels };
+          }),
+        ],
+      });
+      entry.rows.forEach((row) => {
+        frame.appendRow(row);
+      });
+
+      return frame;
+    });
+  }
+  /**
+   * This method transforms a logs result into log lines; the
+   * message is taken from the configured column or the first
+   * text column, and the label columns are provided as labels.
+   */
+  toLogs(
+    t: IgniteQuery,
+    metadata: any[],
+    fields: ConvertedField[],
+    rows: any[][],
+    timeIndex: number,
+    rawTarget?: IgniteQuery
+  ): MutableDataFrame[] {
+    const indexOf = (column: string, description: string) => {
+      const name = this.getColumn(t, metadata, column, description);
+      return fields.findIndex((field) => field.name === name);
+    };
+
+    const level = t.levelColumn ? indexOf(t.levelColumn, 'level') : -1;
+    const labels = (t.labelColumns || '')
+      .split(',')
+      .map((column) => column.trim())
+      .filter((column) => column !== '')
+      .map((column) => indexOf(column, 'label'));
+
+    const message = t.messageColumn
+      ? indexOf(t.messageColumn, 'message')
+      : findMessageColumn(fields, [timeIndex, level, ...labels]);
+    if (message === -1) {
+      throw new Error(`The result of query ${t.refId} does not contain a text column for the log messages.`);
+    }
+
+    const context: LogContext = {
+      target: rawTarget || t,
+      timeColumn: fields[timeIndex].name,
+      timeType: String(metadata[timeIndex].fieldTypeName || ''),
+    };
+    /*
+     * The log lines of the previous pages are removed
+     */
+    const columns = { time: timeIndex, message, level, labels };
+    const page = toPageRows(fields, rows, columns, t.logLimit, t.logCursor);
+
+    const frames = toLogFrames(t.refId, fields, page, columns, context);
+    /*
+     * A full page indicates that older log lines exist,
+     * which are loaded page by page
+     */
+    const limit = t.logLimit || DEFAULT_LOG_LIMIT;
+    if (page.length >= limit) {
+      frames.forEach((frame) => {
+        frame.meta = {
+          ...frame.meta,
+          notices: [
+            ...((frame.meta && frame.meta.notices) || []),
+            {
+              severity: 'info',
+              text: `Showing the latest ${limit} log lines; older log lines are loaded with "Older lines" in the query editor.`,
+            },
+          ],
+        };
+      });
+    }
+    return frames;
+  }
+  /*
+   * A helper method to determine the name of a column
+   * as provided with the metadata; Apache Ignite uses
+   * upper case names for unquoted SQL identifiers.
+   */
+  getColumn(t: IgniteQuery, metadata: any[], column: string, description: string): string {
+    const names: string[] = metadata.map((field) => field.fieldName);
+
+    const name = names.find((n) => n === column) || names.find((n) => n.toUpperCase() === column.toUpperCase());
+    if (name === undefined) {
+      throw new Error(
+        `The ${description} column '${column}' of query ${t.refId} is not part of the query result: ${names.join(
+          ', '
+        )}.`
+      );
+    }
+
+    return name;
+  }
+  /**
+   * This method retrieves the execution plan of an SQL query,
+   * e.g. for the query editor; variables and macros are replaced
+   * as for the query itself.
+   */
+  async explain(q: IgniteQuery, range?: TimeRange): Promise<PlanStep[]> {
+    const t = this.interpolateVariablesInQueries([q], {})[0];
+    const timeRange = range || getDefaultTimeRange();
+    const sql = expandMacros(t.query || '', {
+      range: timeRange,
+      timeZone: this.jsonData.timeZone,
     });
+
+    const parameters = resolveTimeParameters(t.parameters, timeRange);
+    const result = await this._fetchAll({ ...t, query: toExplainQuery(sql), parameters });
+    return parsePlan(result.items);
+  }
+  /**
+   * This method supports the context of log lines in Grafana's
+   * logs panel: the log lines before or after a certain log line
+   * are requested page by page, ordered by the time column.
+   */
+  getLogRowContext = async (row: LogRowModel, options?: LogContextOptions): Promise<DataQueryResponse> => {
+    const meta = row.dataFrame.meta;
+    const context: LogContext | undefined = meta && meta.custom && meta.custom.logContext;
+    if (context === undefined) {
+      return { data: [] };
+    }
+    /*
+     * The macros and parameters are expanded for the time
+     * range before or after the log line, rather than the
+     * one of the original request
+     */
+    const contextOptions = options || {};
+    const time = dateTime(row.timeEpochMs);
+    const from = contextOptions.direction === 'FORWARD' ? time : dateTime(0);
+    const to = contextOptions.direction === 'FORWARD' ? dateTime() : time;
+
+    const range = { from, to, raw: { from, to } };
+    const sql = expandMacros(context.target.query || '', {
+      range,
+      timeZone: this.jsonData.timeZone,
+    });
+    const query = toContextQuery(context, sql, row.timeEpochMs, contextOptions, this.jsonData.timeZone);
+
+    /*
+     * The context query is not paged like the logs query;
+     * it provides up to the requested number of log lines
+     */
+    const t = {
+      ...context.target,
+      query,
+      parameters: resolveTimeParameters(context.target.parameters, range),
+      logLimit: contextOptions.limit || DEFAULT_CONTEXT_LIMIT,
+      logCursor: undefined,
+    };
+    const result = await this._fetchAll(t);
+    await this._resolveFieldTypes(t.cacheName || '', result);
+
+    return { data: toContextFrames(this.toDataFrames(t, result, context.target), contextOptions) };
+  };
+  /**
+   * The context of log lines is supported for
+   * the results of logs queries
+   */
+  showContextToggle(row?: LogRowModel): boolean {
+    const meta = row && row.dataFrame.meta;
+    return meta !== undefined && meta.custom !== undefined && meta.custom.logContext !== undefined;
   }
   /**
    * This method supports Grafana's connection test and
    * retrieves the version of Apache Ignite.
    */
   async testDatasource() {
+    /*
+     * The `token` and `auth` proxy routes of the primary
+     * endpoint refer to the data source url as json data
+     */
+    if ((this.jsonData.userAuth === true || this.jsonData.tokenAuth === true) && !this.jsonData.primaryUrl) {
+      return {
+        status: 'failure',
+        message: 'The data source url is missing in the json data (primaryUrl); please save the data source again.',
+      };
+    }
+    /*
+     * Each configured endpoint is tested individually; the
+     * session tokens are reset to verify the credentials.
+     */
+    const results = await Promise.all(
+      this.endpoints.endpoints.map((endpoint) => {
+        endpoint.sessionToken = undefined;
+        return this._request('/ignite?cmd=version', {}, endpoint).then(
+          ({ response }) => ({ endpoint, version: response, error: undefined }),
+          (err) => ({ endpoint, version: undefined, error: errorMessage(err, 'Failed to connect to Apache Ignite.') })
+        );
+      })
+    );
+
+    const connected = results.filter((r) => r.error === undefined);
+    if (connected.length === 0) {
+      return {
+        status: 'failure',
+        message: results[0].error,
+      };
+    }
+
+    const failed = results.filter((r) => r.error !== undefined);
+    const unreachable =
+      failed.length === 0 ? '' : ` Failed endpoints: ${failed.map((r) => r.endpoint.name).join(', ')}.`;
+    return {
+      status: 'success',
+      message: `Successfully connected to Apache Ignite ${connected[0].version} (${connected.length} of ${results.length} endpoints).${unreachable}`,
+    };
+  }
+  /**
+   * This method retrieves the complete result of an SQL fields
+   * query: Apache Ignite returns the first page of results with
+   * a `queryId`, and subsequent pages are fetched with `qryfetch`
+   * until the last page is reached or the configured maximum number
+   * of rows is exceeded. In the latter case, the server side cursor
+   * is closed with `qrycls`.
+   */
+  async _fetchAll(t: IgniteQuery, requestId?: string): Promise<IgniteQueryResult> {
+    /*
+     * SQL queries with an equality predicate on the affinity
+     * key are preferably sent to the owner of the partition
+     */
+    const owner = await this._routeQuery(t.cacheName || '', t.query || '');
+    /*
+     * The parameters are bound to the placeholders
+     * of the query and sent as `arg1..argN`
+     */
+    const args = bindParameters(t.query || '', t.parameters, this.jsonData.timeZone);
+    const options = this.getQueryOptions(t);
+    return this._fetchPages(
+      '/ignite?cmd=qryfldexe',
+      owner,
+      requestId,
+      this._queryBody(t.cacheName || '', t.query || '', args, options),
+      options.pageSize,
+      options.queryTimeout
+    );
+  }
+  /**
+   * This method determines the execution options of an SQL
+   * query: options that are not specified by the query are
+   * taken from the data source configuration.
+   */
+  getQueryOptions(t: IgniteQuery): IgniteQueryOptions {
+    const defaults: IgniteQueryOptions = this.jsonData;
+    const flag = (value?: boolean, defaultValue?: boolean) => (value !== undefined ? value : defaultValue);
+
+    return {
+      schema: t.schema || defaults.schema || undefined,
+      distributedJoins: flag(t.distributedJoins, defaults.distributedJoins),
+      enforceJoinOrder: flag(t.enforceJoinOrder, defaults.enforceJoinOrder),
+      replicatedOnly: flag(t.replicatedOnly, defaults.replicatedOnly),
+      lazy: flag(t.lazy, defaults.lazy),
+      queryTimeout: t.queryTimeout || defaults.queryTimeout || undefined,
+      pageSize: t.pageSize || defaults.pageSize || undefined,
+    };
+  }
+  /**
+   * A helper method to build the request body of an SQL
+   * fields query; the query is sent as form-encoded POST
+   * body, as long queries exceed the maximum URL length.
+   */
+  _queryBody(cacheName: string, sql: string, args: string[] = [], options: IgniteQueryOptions = {}): string {
+    /*
+     * The configured or predefined page size determines
+     * the number of results per page; the other options
+     * are only sent, if specified, and Apache Ignite's
+     * defaults apply otherwise.
+     */
+    const params: Record<string, string | number | boolean | undefined> = {
+      cacheName,
+      pageSize: options.pageSize || this.PAGE_SIZE,
+      qry: sql,
+      schemaName: options.schema,
+      distributedJoins: options.distributedJoins,
+      enforceJoinOrder: options.enforceJoinOrder,
+      replicatedOnly: options.replicatedOnly,
+      lazy: options.lazy,
+      timeout: options.queryTimeout !== undefined ? options.queryTimeout * 1000 : undefined,
+    };
+    args.forEach((arg, index) => {
+      params[`arg${index + 1}`] = arg;
+    });
+    return toFormBody(params);
+  }
+  /**
+   * This method executes a (SQL or scan) query and fetches
+   * subsequent result pages with `qryfetch`; the parameters
+   * of the query are either part of the request url or sent
+   * as form-encoded body. A query timeout (in seconds) also
+   * applies to the retrieval of all pages.
+   */
+  async _fetchPages(
+    requestUrl: string,
+    preferred?: Endpoint,
+    requestId?: string,
+    body?: string,
+    pageSize?: number,
+    queryTimeout?: number
+  ): Promise<IgniteQueryResult> {
+    const maxRows = this.jsonData.maxRows || this.MAX_ROWS;
+    const deadline = queryTimeout !== undefined ? Date.now() + queryTimeout * 1000 : undefined;
+    const options: Partial<BackendSrvRequest> =
+      body === undefined
+        ? { requestId }
+        : { requestId, method: 'POST', data: body, headers: { 'Content-Type': FORM_CONTENT_TYPE } };
+    /*
+     * Query cursors are held by the endpoint that executed
+     * the query; subsequent pages must be fetched from there
+     */
+    const { response, endpoint } = await this._request(requestUrl, options, undefined, preferred);
+    let page = response;
+
+    const fieldsMetadata = page.fieldsMetadata || [];
+    const queryId = page.queryId;
+
+    let items: any[][] = page.items;
+    let last: boolean = page.last;
+
+    try {
+      while (!last && items.length < maxRows) {
+        if (deadline !== undefined && Date.now() > deadline) {
+          throw new IgniteError(`The query exceeded its timeout of ${queryTimeout} seconds.`, SuccessStatus.FAILED);
+        }
+        const fetchUrl = '/ignite?cmd=qryfetch&pageSize=' + (pageSize || this.PAGE_SIZE) + '&qryId=' + queryId;
+        page = (await this._request(fetchUrl, { requestId }, endpoint)).response;
+
+        items = items.concat(page.items);
+        last = page.last;
+      }
+    } finally {
+      /*
+       * An open cursor is left on the server side, if the last
+       * page was not reached, either due to the row limit, the
+       * query timeout, a failed or a cancelled fetch request.
+       */
+      if (!last) {
+        this._closeQuery(queryId, endpoint);
+      }
+    }
+
+    const truncated = !last || items.length > maxRows;
+    return {
+      fieldsMetadata,
+      items: truncated ? items.slice(0, maxRows) : items,
+      truncated,
+      endpoint: endpoint.name,
+    };
+  }
+  /**
+   * This method retrieves the values of the provided keys
+   * with `cmd=get` (single key) or `cmd=getall` (multiple
+   * keys) and returns them as cache entries; missing keys
+   * are ignored.
+   */
+  async _getEntries(
+    t: IgniteQuery,
+    keys: string[],
+    requestId?: string
+  ): Promise<{ entries: CacheEntry[]; endpoint: string }> {
+    const cacheName = encodeURIComponent(t.cacheName || '');
+    const keyType = t.keyType ? '&keyType=' + encodeURIComponent(t.keyType) : '';
+    /*
+     * Keys are preferably requested from the owner of their
+     * partition; Apache Ignite's REST API treats keys without
+     * key type as strings.
+     */
+    const owner = await this._routeKeys(t.cacheName || '', keys, t.keyType || 'java.lang.String');
+    if (keys.length === 1) {
+      const requestUrl = '/ignite?cmd=get&cacheName=' + cacheName + keyType + '&key=' + encodeURIComponent(keys[0]);
+
+      const { response, endpoint } = await this._request(requestUrl, { requestId }, undefined, owner);
+      return {
+        entries: response === null || response === undefined ? [] : [{ key: keys[0], value: response }],
+        endpoint: endpoint.name,
+      };
+    }
+
+    const params = keys.map((key, index) => `&k${index + 1}=${encodeURIComponent(key)}`).join('');
+    const requestUrl = '/ignite?cmd=getall&cacheName=' + cacheName + keyType + params;
+    /*
+     * The response is a map from keys to values;
+     * composite keys are provided as JSON strings.
+     */
+    const { response, endpoint } = await this._request(requestUrl, { requestId }, undefined, owner);
+    const values = response || {};
+    return {
+      entries: Object.keys(values).map((key) => ({ key, value: values[key] })),
+      endpoint: endpoint.name,
+    };
+  }
+  /**
+   * This method provides the names of all caches of the
+   * cluster, e.g. for the cache picker of the query editor
+   */
+  listCaches(): Promise<string[]> {
+    return this._getCacheNames();
+  }
+  /**
+   * This method removes all cached metadata, e.g. after
+   * caches or SQL tables have been created or dropped
+   */
+  invalidateMetadata() {
+    this.metadata.invalidate();
+  }
+  /**
+   * A helper method to retrieve the (cached) cache names
+   */
+  _getCacheNames(): Promise<string[]> {
+    return this.metadata.get('caches', () => this._loadCacheNames());
+  }
+  /**
+   * This method retrieves the names of all caches of the
+   * cluster: the topology is requested first, and the SQL
+   * metadata are used if the nodes do not provide caches.
+   */
+  async _loadCacheNames(): Promise<string[]> {
+    const names = new Set<string>();
+
+    const nodes: any[] = (await this._getResponse('/ignite?cmd=top')) || [];
+    nodes.forEach((node) => {
+      const caches = node.caches || [];
+      /*
+       * Depending on the Apache Ignite version, caches are
+       * provided as list of objects or as map of names
+       */
+      if (Array.isArray(caches)) {
+        caches.forEach((cache: any) => names.add(typeof cache === 'string' ? cache : cache.name));
+      } else {
+        Object.keys(caches).forEach((name) => names.add(name));
+      }
+    });
+
+    if (names.size === 0) {
+      const metadata: any[] = (await this._getResponse('/ignite?cmd=metadata')) || [];
+      metadata.forEach((m) => names.add(m.cacheName));
+    }
+
+    return Array.from(names)
+      .filter((name) => name !== undefined && name !== null)
+      .sort();
+  }
+  /**
+   * This method retrieves the SQL metadata of a certain cache,
+   * i.e. the SQL types (tables) and their fields (columns).
+   *
+   * Example:
+   *
+   * {
+   * "cacheName": "person",
+   * "types": ["PERSON"],
+   * "fields": {"PERSON": {"FIRSTNAME": "java.lang.String"}},
+   * ...
+   * }
+   */
+  _getMetadata(cacheName: string): Promise<any> {
+    return this.metadata.get(`metadata:${cacheName}`, () => this._loadMetadata(cacheName));
+  }
+  /**
+   * A helper method to retrieve the SQL metadata of a
+   * certain cache with `cmd=metadata`
+   */
+  async _loadMetadata(cacheName: string): Promise<any> {
+    const response = await this._getResponse('/ignite?cmd=metadata&cacheName=' + encodeURIComponent(cacheName));
+    if (Array.isArray(response)) {
+      return response.find((m) => m.cacheName === cacheName) || response[0] || {};
+    }
+
+    return response || {};
+  }
+  /**
+   * This method determines the endpoint that serves the owner
+   * of the partition of the provided keys, if partition awareness
+   * is enabled and all keys belong to the same owner.
+   */
+  async _routeKeys(cacheName: string, keys: string[], keyType?: string): Promise<Endpoint | undefined> {
+    const affinity = await this._getAffinity(cacheName);
+    if (affinity === undefined || keys.length === 0) {
+      return undefined;
+    }
+
+    const owners = keys.map((key) => ownerOf(affinity, key, keyType));
+    return owners.every((owner) => owner !== undefined && owner === owners[0]) ? owners[0] : undefined;
+  }
+  /**
+   * This method determines the endpoint that serves the owner
+   * of the partition that is addressed by an SQL query, i.e.
+   * a query with a single equality predicate on the affinity
+   * key column (or the key column) of the cache's table.
+   *
+   * Routing is an optimization only: Apache Ignite executes
+   * SQL queries distributed, independent of the node that
+   * receives the request.
+   */
+  async _routeQuery(cacheName: string, sql: string): Promise<Endpoint | undefined> {
+    const affinity = await this._getAffinity(cacheName);
+    if (affinity === undefined || affinity.keyColumn === undefined) {
+      return undefined;
+    }
+
+    const literal = findKeyLiteral(sql, affinity.keyColumn);
+    return literal === undefined ? undefined : ownerOf(affinity, literal, affinity.keyType);
+  }
+  /**
+   * This method retrieves the affinity information of a cache,
+   * if partition awareness is enabled; the information is reused
+   * for a while, and missing information disables routing.
+   */
+  async _getAffinity(cacheName: string): Promise<CacheAffinity | undefined> {
+    if (this.jsonData.partitionAwareness !== true || this.endpoints.endpoints.length < 2 || !cacheName) {
+      return undefined;
+    }
+
+    const cached = this.affinities.get(cacheName);
+    if (cached !== undefined && cached.expires > Date.now()) {
+      return cached;
+    }
+
     try {
-      const requestUrl = '/ignite?cmd=version';
+      const affinity = await this._loadAffinity(cacheName);
+      this.affinities.set(cacheName, affinity);
+
+      return affinity;
+    } catch (err) {
       /*
-       * Determine whether user authentication is enabled;
-       * if this is the case, the request url is extended.
+       * Older Apache Ignite versions do not provide the
+       * required system views; routing is skipped for a
+       * while, and requests use the configured endpoints
        */
-      if (this.jsonData.userAuth === true) {
+      this.affinities.set(cacheName, {
+        partitions: 0,
+        owners: new Map<number, Endpoint>(),
+        expires: Date.now() + AFFINITY_TTL,
+      });
+      return undefined;
+    }
+  }
+  /**
+   * This method discovers the cluster topology with `cmd=top`
+   * and maps the nodes to the configured endpoints by their REST
+   * addresses; the node of the primary endpoint is resolved by
+   * the endpoint itself. The primary owners of the partitions
+   * and the affinity key column are retrieved from Apache Ignite's
+   * system views (SYS.CACHES, SYS.TABLES, SYS.PARTITION_STATES).
+   *
+   * Nodes can only be addressed through the proxy routes of the
+   * configured endpoints; partitions owned by nodes that are not
+   * configured as endpoint are served by the default selection.
+   */
+  async _loadAffinity(cacheName: string): Promise<CacheAffinity> {
+    const nodes: any[] = (await this._getResponse('/ignite?cmd=top&attr=true', { hideFromInspector: true })) || [];
+    const nodeEndpoints = mapNodesToEndpoints(nodes, this.endpoints.endpoints);
+
+    const primary = this.endpoints.endpoints[0];
+    const primaryNode = await this._resolveLocalNode(primary, cacheName);
+    if (primaryNode !== undefined && nodes.some((node) => String(node.nodeId).toLowerCase() === primaryNode)) {
+      nodeEndpoints.set(primaryNode, primary);
+    }
+    /*
+     * The system views are queried like any other
+     * SQL query, i.e. as form-encoded POST request
+     */
+    const query = (sql: string) =>
+      this._fetchPages('/ignite?cmd=qryfldexe', undefined, undefined, this._queryBody(cacheName, sql));
+
+    const name = quoteLiteral(cacheName);
+    const caches = await query(`SELECT CACHE_GROUP_ID FROM SYS.CACHES WHERE CACHE_NAME = ${name}`);
+    if (caches.items.length === 0) {
+      throw new Error(`Cache '${cacheName}' is not available.`);
+    }
+
+    const groupId = Number(caches.items[0][0]);
+    const partitions = await query(
+      `SELECT PARTITION_ID, NODE_ID FROM SYS.PARTITION_STATES WHERE CACHE_GROUP_ID = ${groupId} AND IS_PRIMARY = TRUE`
+    );
+
+    const owners = new Map<number, Endpoint>();
+    let count = 0;
+
+    partitions.items.forEach((row) => {
+      const partition = Number(row[0]);
+      count = Math.max(count, partition + 1);
+
+      const endpoint = nodeEndpoints.get(String(row[1]).toLowerCase());
+      if (endpoint !== undefined) {
+        owners.set(partition, endpoint);
+      }
+    });
+    /*
+     * The partition of an SQL row is determined by the affinity
+     * key column, or by the key column; composite keys without
+     * affinity key column are hashed as binary objects and are
+     * not supported.
+     */
+    const tables = await query(
+      `SELECT AFFINITY_KEY_COLUMN, KEY_ALIAS, KEY_TYPE_NAME FROM SYS.TABLES WHERE CACHE_NAME = ${name}`
+    );
+
+    let keyColumn;
+    let keyType;
+    if (tables.items.length === 1) {
+      const [affinityKeyColumn, keyAlias, keyTypeName] = tables.items[0];
+      if (affinityKeyColumn) {
+        keyColumn = String(affinityKeyColumn);
+      } else if (/^java\.lang\.(String|Integer|Long)$/.test(String(keyTypeName))) {
+        keyColumn = keyAlias ? String(keyAlias) : '_KEY';
+        keyType = String(keyTypeName);
+      }
+    }
+
+    return { partitions: count, owners, keyColumn, keyType, expires: Date.now() + AFFINITY_TTL };
+  }
+  /**
+   * The primary endpoint refers to the data source url, which
+   * is not known to the browser, and cannot be matched with the
+   * REST addresses of the nodes. Its node is the local node of
+   * the node-local SYS.NODES view, as served by this endpoint;
+   * answers of another (failover) endpoint are ignored.
+   */
+  async _resolveLocalNode(endpoint: Endpoint, cacheName: string): Promise<string | undefined> {
+    const body = this._queryBody(cacheName, 'SELECT NODE_ID FROM SYS.NODES WHERE IS_LOCAL = TRUE');
+    const result = await this._fetchPages('/ignite?cmd=qryfldexe', endpoint, undefined, body).catch(() => undefined);
+    if (result === undefined || result.endpoint !== endpoint.name || result.items.length !== 1) {
+      return undefined;
+    }
+
+    return String(result.items[0][0]).toLowerCase();
+  }
+  /**
+   * Apache Ignite does not provide the type of all result
+   * columns, e.g. `java.lang.Object` for computed columns;
+   * in this case, the column type is taken from the cached
+   * SQL metadata of the table the column refers to.
+   */
+  async _resolveFieldTypes(cacheName: string, result: IgniteQueryResult) {
+    const unresolved = result.fieldsMetadata.filter(
+      (field) => !field.fieldTypeName || field.fieldTypeName === 'java.lang.Object'
+    );
+    if (unresolved.length === 0 || !cacheName) {
+      return;
+    }
+
+    const metadata = await this._getMetadata(cacheName).catch(() => ({}));
+    const fields = metadata.fields || {};
+
+    unresolved.forEach((field) => {
+      const columns = fields[field.typeName] || {};
+      if (columns[field.fieldName]) {
+        field.fieldTypeName = columns[field.fieldName];
+      }
+    });
+  }
+  /**
+   * A helper method to close an open query cursor
+   * on the server side; failures are ignored as the
+   * cursor is released by Apache Ignite on timeout.
+   */
+  _closeQuery(queryId: number, endpoint: Endpoint) {
+    const requestUrl = '/ignite?cmd=qrycls&qryId=' + queryId;
+    this._request(requestUrl, { hideFromInspector: true }, endpoint).catch(() => {});
+  }
+  /**
+   * This method retrieves a session token for the configured
+   * user with `cmd=authenticate`; concurrent requests share a
+   * single authentication request. Session tokens are managed
+   * per endpoint.
+   *
+   * Once the user has saved the configuration for a data source,
+   * any secret configuration (password) will no longer be available
+   * in the browser. Therefore, the request is sent via the `auth`
+   * proxy route, and the Grafana server adds the decrypted password
+   * as `ignite.password` parameter before sending it off.
+   */
+  _authenticate(endpoint: Endpoint): Promise<string> {
+    if (endpoint.sessionToken !== undefined) {
+      return Promise.resolve(endpoint.sessionToken);
+    }
+    if (endpoint.authentication === undefined) {
+      endpoint.authentication = this._send(endpoint, '/auth/ignite?cmd=authenticate', { hideFromInspector: true })
+        .then((data) => {
+          if (!data.sessionToken) {
+            throw new IgniteError('Apache Ignite did not provide a session token.', SuccessStatus.AUTH_FAILED);
+          }
+          endpoint.sessionToken = data.sessionToken as string;
+          return endpoint.sessionToken;
+        })
+        .catch((err) => {
+          if (err instanceof IgniteError && err.network) {
+            throw err;
+          }
+          throw new IgniteError(
+            `Authentication of user '${this.jsonData.user || ''}' failed: ${err.message}`,
+            SuccessStatus.AUTH_FAILED
+          );
+        })
+        .finally(() => {
+          endpoint.authentication = undefined;
+        });
+    }
+
+    return endpoint.authentication;
+  }
+  /**
+   * A helper method to send a request to the Apache Ignite
+   * REST API and extract the `response` attribute from the
+   * result; an unsuccessful request is rejected.
+   */
+  async _getResponse(apiUrl: string, options?: Partial<BackendSrvRequest>): Promise<any> {
+    const { response } = await this._request(apiUrl, options);
+    return response;
+  }
+  /**
+   * This method sends a request to the configured endpoints:
+   * if an endpoint cannot be reached, it is ejected for a while
+   * and the request is retried on the next endpoint. All requests
+   * of this data source only read data and can safely be retried.
+   *
+   * Requests that are bound to a certain endpoint, e.g. to fetch
+   * the pages of an open query cursor, are sent to this endpoint
+   * only. A preferred endpoint, e.g. the owner of a partition, is
+   * tried first.
+   */
+  async _request(
+    apiUrl: string,
+    options?: Partial<BackendSrvRequest>,
+    endpoint?: Endpoint,
+    preferred?: Endpoint
+  ): Promise<{ response: any; endpoint: Endpoint }> {
+    const candidates = endpoint !== undefined ? [endpoint] : this.endpoints.select(preferred);
+
+    let error;
+    for (const candidate of candidates) {
+      try {
+        const response = await this._requestFrom(candidate, apiUrl, options);
+        this.endpoints.markSuccess(candidate);
+
+        return { response, endpoint: candidate };
+      } catch (err) {
+        if (!(err instanceof IgniteError) || !err.network) {
+          throw err;
+        }
+        this.endpoints.markFailure(candidate);
+        error = err;
+      }
+    }
+
+    throw error;
+  }
+  /**
+   * This method sends a request to a certain endpoint. If user
+   * authentication is enabled, the session token is attached,
+   * and renewed once if it has expired.
+   */
+  async _requestFrom(endpoint: Endpoint, apiUrl: string, options?: Partial<BackendSrvRequest>): Promise<any> {
+    if (this.jsonData.userAuth !== true) {
+      const data = await this._send(endpoint, apiUrl, options);
+      return data.response;
+    }
+
+    let retry = endpoint.sessionToken !== undefined;
+    while (true) {
+      const sessionToken = await this._authenticate(endpoint);
+      try {
+        const data = await this._send(endpoint, apiUrl + '&sessionToken=' + encodeURIComponent(sessionToken), options);
+        return data.response;
+      } catch (err) {
+        if (!(err instanceof IgniteError) || !err.isAuthError()) {
+          throw err;
+        }
         /*
-         * Once the user has saved the configuration for a data source,
-         * any secret configuration (password) will no longer be available
-         * in the browser.
-         *
-         * Encrypted secrets can only be accessed on the server. To this end,
-         * the Grafana server comes with a proxy that lets you define templates
-         * for your requests. They are called proxy routes.
-         *
-         * Grafana sends the proxy route to the server, decrypts the secrets
-         * along with other configuration, and adds them to the request before
-         * sending it off.
+         * The session token has expired or was invalidated;
+         * a new token is requested exactly once
          */
+        endpoint.sessionToken = undefined;
+        if (!retry) {
+          throw new IgniteError(
+            `Authentication of user '${this.jsonData.user || ''}' failed: ${err.message}`,
+            err.successStatus
+          );
+        }
+        retry = false;
       }
-      const res = await this._get(requestUrl, { hideFromInspector: false }).toPromise();
+    }
+  }
+  /**
+   * A helper method to send a request and check the
+   * `successStatus` of the Apache Ignite response
+   */
+  async _send(endpoint: Endpoint, apiUrl: string, options?: Partial<BackendSrvRequest>): Promise<Record<string, any>> {
+    /*
+     * Requests of a cancelled query target are not sent,
+     * and in-flight requests are aborted
+     */
+    const cancellation = options && options.requestId ? this.cancellations.get(options.requestId) : undefined;
+    if (cancellation !== undefined && cancellation.isStopped) {
+      throw new IgniteError('The query was cancelled.', SuccessStatus.FAILED);
+    }
 
-      const data = res.data;
-      if (data.error === null || data.successStatus === 0) {
-        return {
-          status: 'success',
-          message: 'Successfully connected to Apache Ignite.',
-        };
-      } else {
-        throw 'Failed to connect to Apache Ignite.';
+    let res;
+    try {
+      let request = this._get(apiUrl, { hideFromInspector: false, ...options }, endpoint);
+      if (cancellation !== undefined) {
+        request = request.pipe(takeUntil(cancellation));
       }
+      res = await request.toPromise();
     } catch (err) {
-      return {
-        status: 'failure',
-        message: err.message,
-      };
+      if (err.status === 401 || err.status === 403) {
+        throw new IgniteError('Access to Apache Ignite denied.', SuccessStatus.AUTH_FAILED);
+      }
+      /*
+       * The Grafana proxy responds with `502 Bad Gateway`,
+       * if the endpoint cannot be reached
+       */
+      const network = !err.status || err.status === 502 || err.status === 503 || err.status === 504;
+      throw new IgniteError(
+        (err.data && (err.data.error || err.data.message)) ||
+          err.statusText ||
+          'Failed to execute Apache Ignite request.',
+        SuccessStatus.FAILED,
+        network
+      );
+    }
+
+    if (res === undefined) {
+      throw new IgniteError('The query was cancelled.', SuccessStatus.FAILED);
+    }
+
+    const data = res.data;
+    if (data.successStatus !== SuccessStatus.SUCCESS) {
+      throw new IgniteError(data.error || 'Failed to execute Apache Ignite request.', data.successStatus);
     }
+
+    return data;
   }
   /**
-   * A common helper method to manage GET requests
+   * A common helper method to manage GET requests, and
+   * POST requests with a form-encoded body
    */
-  _get(apiUrl: string, options?: Partial<BackendSrvRequest>): Observable<Record<string, any>> {
-    const baseUrl = this.instanceSettings.url;
-    const url = `${baseUrl}${apiUrl}`;
+  _get(apiUrl: string, options?: Partial<BackendSrvRequest>, endpoint?: Endpoint): Observable<Record<string, any>> {
+    /*
+     * Additional endpoints are served by the `node{n}` proxy
+     * routes, and the `token` proxy route adds the access token
+     * as `Authorization: Bearer` header.
+     */
+    const prefix = endpoint !== undefined ? endpoint.prefix : '';
+    const token = this.jsonData.tokenAuth === true ? '/token' : '';
+
+    const url = `${this.instanceSettings.url}${prefix}${token}${apiUrl}`;
+    /*
+     * Non-secure custom headers are sent with the request;
+     * secure headers are added by the Grafana server.
+     */
+    const headers: Record<string, string> = {};
+    (this.jsonData.customHeaders || []).forEach((header: IgniteHttpHeader) => {
+      if (!header.secure && header.name) {
+        headers[header.name] = header.value || '';
+      }
+    });
 
     const req = {
       ...options,
+      headers: { ...headers, ...(options && options.headers) },
       url,
     };
     /*
@@ -0,0 +1,142 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { LoadBalancingValue } from '../types';
+
+/**
+ * The maximum number of additional endpoints; each
+ * of them is served by a set of proxy routes, named
+ * `node1` ... `node4`, defined in plugin.json.
+ */
+export const MAX_ADDITIONAL_ENDPOINTS = 4;
+/**
+ * The time an endpoint is ejected from the
+ * selection after a failed request
+ */
+export const EJECTION_TIME = 30000;
+/**
+ * An Apache Ignite REST endpoint
+ */
+export interface Endpoint {
+  /**
+   * The name of the endpoint, i.e. `primary` for the
+   * data source url, or the configured url
+   *
+   * @type {string}
+   */
+  name: string;
+  /**
+   * The proxy path prefix, e.g. `/node1`; the
+   * primary endpoint is served without prefix
+   *
+   * @type {string}
+   */
+  prefix: string;
+  /**
+   * The session token for this endpoint
+   *
+   * @type {string}
+   */
+  sessionToken?: string;
+  /**
+   * The pending authentication request
+   *
+   * @type {Promise<string>}
+   */
+  authentication?: Promise<string>;
+  /**
+   * The number of subsequent failures
+   *
+   * @type {number}
+   */
+  failures: number;
+  /**
+   * The time until this endpoint is ejected
+   *
+   * @type {number}
+   */
+  ejectedUntil: number;
+}
+/**
+ * The pool of configured Apache Ignite REST endpoints;
+ * it determines the order in which the endpoints are
+ * tried and tracks their health.
+ */
+export class EndpointPool {
+  endpoints: Endpoint[];
+  loadBalancing: LoadBalancingValue;
+  next = 0;
+
+  constructor(additionalUrls: string[], loadBalancing?: LoadBalancingValue) {
+    /*
+     * The proxy routes refer to the additional endpoints by
+     * their position; empty entries are therefore retained
+     * until here, and skipped afterwards
+     */
+    const additional = additionalUrls
+      .slice(0, MAX_ADDITIONAL_ENDPOINTS)
+      .map((url, index) => {
+        return { name: url, prefix: `/node${index + 1}`, failures: 0, ejectedUntil: 0 };
+      })
+      .filter((endpoint) => endpoint.name !== undefined && endpoint.name !== '');
+
+    this.endpoints = [{ name: 'primary', prefix: '', failures: 0, ejectedUntil: 0 }, ...additional];
+    this.loadBalancing = loadBalancing || LoadBalancingValue.FAILOVER;
+  }
+  /**
+   * This method returns the endpoints in the order they
+   * should be tried: healthy endpoints first, either in
+   * configured (primary/secondary) or round-robin order,
+   * followed by ejected endpoints as last resort.
+   *
+   * A preferred endpoint, e.g. the owner of a partition,
+   * is tried first, unless it is currently ejected.
+   */
+  select(preferred?: Endpoint): Endpoint[] {
+    let ordered = this.endpoints;
+    if (preferred !== undefined) {
+      ordered = [preferred, ...this.endpoints.filter((endpoint) => endpoint !== preferred)];
+    } else if (this.loadBalancing === LoadBalancingValue.ROUND_ROBIN) {
+      const start = this.next % this.endpoints.length;
+      this.next = start + 1;
+
+      ordered = [...this.endpoints.slice(start), ...this.endpoints.slice(0, start)];
+    }
+
+    const now = Date.now();
+    return [
+      ...ordered.filter((endpoint) => endpoint.ejectedUntil <= now),
+      ...ordered.filter((endpoint) => endpoint.ejectedUntil > now),
+    ];
+  }
+  /**
+   * A successful request restores the health of an endpoint
+   */
+  markSuccess(endpoint: Endpoint) {
+    endpoint.failures = 0;
+    endpoint.ejectedUntil = 0;
+  }
+  /**
+   * A failed request temporarily ejects an endpoint; the
+   * ejection time grows with subsequent failures.
+   */
+  markFailure(endpoint: Endpoint) {
+    endpoint.failures += 1;
+    endpoint.ejectedUntil = Date.now() + EJECTION_TIME * Math.min(endpoint.failures, 10);
+  }
+}
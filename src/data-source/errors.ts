@@ -0,0 +1,214 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { DataQueryError } from '@grafana/data';
+
+/**
+ * The `successStatus` codes of Apache Ignite's REST API
+ */
+export enum SuccessStatus {
+  SUCCESS = 0,
+  FAILED = 1,
+  AUTH_FAILED = 2,
+  SECURITY_CHECK_FAILED = 3,
+}
+/**
+ * An error that describes an unsuccessful
+ * Apache Ignite REST API request
+ */
+export class IgniteError extends Error {
+  /**
+   * Success status of the response
+   *
+   * @type {number}
+   */
+  successStatus: number;
+  /**
+   * Indicates whether the Apache Ignite endpoint
+   * could not be reached
+   *
+   * @type {boolean}
+   */
+  network: boolean;
+
+  constructor(message: string, successStatus: number, network = false) {
+    super(message);
+    /*
+     * Restore the prototype chain, as the plugin is
+     * compiled to ES5, where `instanceof` does not
+     * work for subclasses of built-in classes
+     */
+    Object.setPrototypeOf(this, IgniteError.prototype);
+
+    this.name = 'IgniteError';
+    this.successStatus = successStatus;
+    this.network = network;
+  }
+  /**
+   * Indicates whether the request was rejected, as the
+   * user or session token could not be authenticated
+   */
+  isAuthError(): boolean {
+    return (
+      this.successStatus === SuccessStatus.AUTH_FAILED ||
+      this.successStatus === SuccessStatus.SECURITY_CHECK_FAILED ||
+      /session token/i.test(this.message)
+    );
+  }
+}
+/**
+ * The categories of query errors, used to
+ * give the user a hint what went wrong
+ */
+export enum ErrorCategory {
+  AUTH = 'auth',
+  MISSING_CACHE = 'missingCache',
+  SQL_SYNTAX = 'sqlSyntax',
+  TIMEOUT = 'timeout',
+  NETWORK = 'network',
+  QUERY = 'query',
+}
+/**
+ * The headlines of the error categories
+ */
+const ERROR_HEADLINES: Record<string, string> = {
+  [ErrorCategory.AUTH]: 'Authentication failed',
+  [ErrorCategory.MISSING_CACHE]: 'Cache not found',
+  [ErrorCategory.SQL_SYNTAX]: 'SQL syntax error',
+  [ErrorCategory.TIMEOUT]: 'Request timed out',
+  [ErrorCategory.NETWORK]: 'Apache Ignite is not reachable',
+  [ErrorCategory.QUERY]: 'Query failed',
+};
+/**
+ * The structured error of a single query target
+ */
+export interface IgniteQueryError extends DataQueryError {
+  /**
+   * The reference id of the failed query
+   *
+   * @type {string}
+   */
+  refId: string;
+  /**
+   * Error category
+   *
+   * @type {ErrorCategory}
+   */
+  category: ErrorCategory;
+  /**
+   * The `successStatus` of the Apache Ignite
+   * response, if available
+   *
+   * @type {number}
+   */
+  successStatus?: number;
+  /**
+   * The (1-based) position of the offending
+   * token in the SQL query, if available
+   *
+   * @type {number}
+   */
+  position?: number;
+}
+/**
+ * A helper method to extract the message of an error,
+ * which may also be a string or a Grafana fetch error
+ */
+export function errorMessage(err: any, defaultMessage = 'Failed to execute Apache Ignite request.'): string {
+  if (typeof err === 'string') {
+    return err;
+  }
+  if (err && err.message) {
+    return String(err.message);
+  }
+  if (err && err.data && (err.data.error || err.data.message)) {
+    return String(err.data.error || err.data.message);
+  }
+  return defaultMessage;
+}
+/**
+ * This method determines the category of an error
+ * from its status and the Apache Ignite error text
+ */
+export function categorize(err: any): ErrorCategory {
+  const message = errorMessage(err);
+  if (err instanceof IgniteError && err.isAuthError()) {
+    return ErrorCategory.AUTH;
+  }
+  if (/time(d)?\s*out|timeout/i.test(message)) {
+    return ErrorCategory.TIMEOUT;
+  }
+  if (err instanceof IgniteError && err.network) {
+    return ErrorCategory.NETWORK;
+  }
+  if (/cache\b.*\b(not found|does not exist|is not started)|failed to find cache/i.test(message)) {
+    return ErrorCategory.MISSING_CACHE;
+  }
+  if (/syntax error|failed to parse query|(column|table|schema) .* not found/i.test(message)) {
+    return ErrorCategory.SQL_SYNTAX;
+  }
+  return ErrorCategory.QUERY;
+}
+/**
+ * This method extracts the position of the offending token
+ * from an SQL error: H2 marks it with `[*]` in the quoted
+ * statement, Calcite reports `line x, column y`.
+ */
+export function errorPosition(message: string, sql?: string): number | undefined {
+  const marked = /statement\s+"([\s\S]*?)\[\*\]/i.exec(message);
+  if (marked !== null) {
+    return marked[1].length + 1;
+  }
+
+  const located = /line (\d+), column (\d+)/i.exec(message);
+  if (located !== null) {
+    const line = Number(located[1]);
+    const column = Number(located[2]);
+    if (sql === undefined) {
+      return line === 1 ? column : undefined;
+    }
+
+    const lines = sql.split('\n');
+    if (line > lines.length) {
+      return undefined;
+    }
+    return lines.slice(0, line - 1).reduce((position, text) => position + text.length + 1, 0) + column;
+  }
+
+  return undefined;
+}
+/**
+ * This method transforms an error of a certain query
+ * target into a structured Grafana query error
+ */
+export function toQueryError(refId: string, err: any, sql?: string): IgniteQueryError {
+  const error = errorMessage(err);
+  const category = categorize(err);
+
+  const position = category === ErrorCategory.SQL_SYNTAX ? errorPosition(error, sql) : undefined;
+  const headline = ERROR_HEADLINES[category] + (position !== undefined ? ` at position ${position}` : '');
+
+  return {
+    refId,
+    category,
+    successStatus: err instanceof IgniteError ? err.successStatus : undefined,
+    position,
+    message: `${headline}: ${error}`,
+    data: { message: headline, error },
+  };
+}
@@ -0,0 +1,89 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+
+/**
+ * The time (in seconds) metadata are reused,
+ * if not configured otherwise
+ */
+export const DEFAULT_METADATA_TTL = 60;
+/**
+ * A cached metadata value
+ */
+interface MetadataEntry {
+  /**
+   * The pending or resolved value
+   *
+   * @type {Promise<any>}
+   */
+  value: Promise<any>;
+  /**
+   * Expiry time
+   *
+   * @type {number}
+   */
+  expires: number;
+}
+/**
+ * The metadata cache of a data source, e.g. the cache
+ * names and the SQL metadata of the caches; concurrent
+ * requests for the same metadata share a single request,
+ * and failed requests are not cached.
+ */
+export class MetadataCache {
+  entries = new Map<string, MetadataEntry>();
+  ttl: number;
+
+  constructor(ttl?: number) {
+    this.ttl = (ttl === undefined || ttl === null ? DEFAULT_METADATA_TTL : ttl) * 1000;
+  }
+  /**
+   * This method returns the cached value of the provided
+   * key, or loads and caches it, if missing or expired
+   */
+  get<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry !== undefined && entry.expires > Date.now()) {
+      return entry.value;
+    }
+
+    const value = load();
+    if (this.ttl > 0) {
+      this.entries.set(key, { value, expires: Date.now() + this.ttl });
+      value.catch(() => {
+        const current = this.entries.get(key);
+        if (current !== undefined && current.value === value) {
+          this.entries.delete(key);
+        }
+      });
+    }
+
+    return value;
+  }
+  /**
+   * This method removes the cached value of the
+   * provided key, or all values if no key is given
+   */
+  invalidate(key?: string) {
+    if (key === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,157 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { TimeRange } from '@grafana/data';
+import { IgniteQueryOptions, IgniteQueryParameter, IgniteQueryResult } from '../types';
+
+/**
+ * The time (in seconds) a query result is
+ * reused, if not configured otherwise
+ */
+export const DEFAULT_RESULT_CACHE_TTL = 30;
+/**
+ * The maximum memory size (in MB) of the
+ * cached results, if not configured otherwise
+ */
+export const DEFAULT_RESULT_CACHE_SIZE = 16;
+/**
+ * A cached query result
+ */
+interface ResultEntry {
+  /**
+   * Query result
+   *
+   * @type {IgniteQueryResult}
+   */
+  result: IgniteQueryResult;
+  /**
+   * Estimated memory size in bytes
+   *
+   * @type {number}
+   */
+  size: number;
+  /**
+   * Creation time
+   *
+   * @type {number}
+   */
+  created: number;
+}
+/**
+ * The in-browser cache of SQL query results; the least
+ * recently used results are evicted, if the estimated
+ * memory size exceeds the configured maximum.
+ */
+export class ResultCache {
+  entries = new Map<string, ResultEntry>();
+  ttl: number;
+  maxSize: number;
+  size = 0;
+
+  constructor(ttl?: number, maxSize?: number) {
+    this.ttl = (ttl || DEFAULT_RESULT_CACHE_TTL) * 1000;
+    this.maxSize = (maxSize || DEFAULT_RESULT_CACHE_SIZE) * 1024 * 1024;
+  }
+  /**
+   * This method builds the key of a query result from the
+   * cache name, the SQL query with interpolated variables
+   * (but unexpanded macros), the format and the time range,
+   * aligned to the TTL; queries of different viewers within
+   * the same TTL window therefore share their result. The
+   * parameters and execution options of the query are part
+   * of the key as well.
+   */
+  key(
+    cacheName: string,
+    sql: string,
+    format: string,
+    range: TimeRange,
+    intervalMs: number,
+    parameters: IgniteQueryParameter[] = [],
+    options: IgniteQueryOptions = {}
+  ): string {
+    const align = (time: number) => Math.floor(time / this.ttl) * this.ttl;
+    return JSON.stringify([
+      cacheName,
+      sql,
+      format,
+      align(range.from.valueOf()),
+      align(range.to.valueOf()),
+      intervalMs,
+      parameters.map((parameter) => [parameter.source, parameter.value, parameter.type]),
+      options,
+    ]);
+  }
+  /**
+   * This method returns the cached result of the provided
+   * key with its creation time, if available and not expired
+   */
+  get(key: string): IgniteQueryResult | undefined {
+    const entry = this.entries.get(key);
+    if (entry === undefined) {
+      return undefined;
+    }
+    if (entry.created + this.ttl <= Date.now()) {
+      this.remove(key);
+      return undefined;
+    }
+    /*
+     * Move the entry to the end of the (insertion
+     * ordered) map, i.e. mark it most recently used
+     */
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return { ...entry.result, cachedAt: entry.created };
+  }
+  /**
+   * This method caches a query result; results that exceed
+   * the maximum size are not cached.
+   */
+  set(key: string, result: IgniteQueryResult) {
+    const size = JSON.stringify(result).length * 2;
+    if (size > this.maxSize) {
+      return;
+    }
+
+    this.remove(key);
+    while (this.size + size > this.maxSize && this.entries.size > 0) {
+      this.remove(this.entries.keys().next().value);
+    }
+
+    this.entries.set(key, { result, size, created: Date.now() });
+    this.size += size;
+  }
+  /**
+   * This method removes all cached results
+   */
+  clear() {
+    this.entries.clear();
+    this.size = 0;
+  }
+  /**
+   * A helper method to remove a certain result
+   */
+  remove(key: string) {
+    const entry = this.entries.get(key);
+    if (entry !== undefined) {
+      this.entries.delete(key);
+      this.size -= entry.size;
+    }
+  }
+}
@@ -16,7 +16,7 @@
  * @author Stefan Krusche, Dr. Krusche & Partner PartG
  *
  */
-import { ConfigEditor, QueryEditor } from 'components';
+import { ConfigEditor, QueryEditor, VariableQueryEditor } from 'components';
 import { DataSourcePlugin } from '@grafana/data';
 import { DataSource } from './data-source';
 import { IgniteDataSourceOptions, IgniteQuery } from './types';
@@ -26,4 +26,5 @@ import { IgniteDataSourceOptions, IgniteQuery } from './types';
  */
 export const plugin = new DataSourcePlugin<DataSource, IgniteQuery, IgniteDataSourceOptions>(DataSource)
   .setConfigEditor(ConfigEditor)
-  .setQueryEditor(QueryEditor);
+  .setQueryEditor(QueryEditor)
+  .setVariableQueryEditor(VariableQueryEditor);
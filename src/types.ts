@@ -27,6 +27,7 @@ import { DataQuery, DataSourceJsonData, SelectableValue } from '@grafana/data';
 export enum FormatTypeValue {
   TIMESERIES = 'time_series',
   TABLE = 'table',
+  LOGS = 'logs',
 }
 /**
  * Format Type
@@ -42,11 +43,379 @@ export const FormatType: Array<SelectableValue<FormatTypeValue>> = [
     description: 'The query result specifies a table.',
     value: FormatTypeValue.TABLE,
   },
+  {
+    label: 'Logs',
+    description: 'The query result describes log lines.',
+    value: FormatTypeValue.LOGS,
+  },
+];
+/**
+ * Query Type Values
+ */
+export enum QueryTypeValue {
+  SQL = 'sql',
+  GET = 'get',
+  GET_ALL = 'getAll',
+  SCAN = 'scan',
+  NODES = 'nodes',
+  CACHE_METRICS = 'cacheMetrics',
+}
+/**
+ * Query Type
+ */
+export const QueryType: Array<SelectableValue<QueryTypeValue>> = [
+  {
+    label: 'SQL',
+    description: 'Execute an SQL fields query.',
+    value: QueryTypeValue.SQL,
+  },
+  {
+    label: 'Get',
+    description: 'Retrieve the value of a single key.',
+    value: QueryTypeValue.GET,
+  },
+  {
+    label: 'Get all',
+    description: 'Retrieve the values of a list of keys.',
+    value: QueryTypeValue.GET_ALL,
+  },
+  {
+    label: 'Scan',
+    description: 'Scan all entries of a key-value cache.',
+    value: QueryTypeValue.SCAN,
+  },
+  {
+    label: 'Cluster nodes',
+    description: 'Retrieve the metrics of the cluster nodes.',
+    value: QueryTypeValue.NODES,
+  },
+  {
+    label: 'Cache metrics',
+    description: 'Retrieve the size and metrics of caches.',
+    value: QueryTypeValue.CACHE_METRICS,
+  },
+];
+/**
+ * Node Metric Values
+ *
+ * The names of the node metrics provided
+ * by `cmd=top&mtr=true`
+ */
+export enum NodeMetricValue {
+  HEAP_MEMORY_USED = 'heapMemoryUsed',
+  HEAP_MEMORY_COMMITTED = 'heapMemoryCommitted',
+  HEAP_MEMORY_MAX = 'heapMemoryMaximum',
+  NON_HEAP_MEMORY_USED = 'nonHeapMemoryUsed',
+  CURRENT_CPU_LOAD = 'currentCpuLoad',
+  AVERAGE_CPU_LOAD = 'averageCpuLoad',
+  CURRENT_GC_CPU_LOAD = 'currentGcCpuLoad',
+  CURRENT_THREAD_COUNT = 'currentThreadCount',
+  MAXIMUM_THREAD_COUNT = 'maximumThreadCount',
+  CURRENT_DAEMON_THREAD_COUNT = 'currentDaemonThreadCount',
+  UP_TIME = 'upTime',
+  CURRENT_ACTIVE_JOBS = 'currentActiveJobs',
+  CURRENT_WAITING_JOBS = 'currentWaitingJobs',
+  CURRENT_REJECTED_JOBS = 'currentRejectedJobs',
+  TOTAL_EXECUTED_JOBS = 'totalExecutedJobs',
+  TOTAL_EXECUTED_TASKS = 'totalExecutedTasks',
+  TOTAL_CPUS = 'totalCpus',
+}
+/**
+ * Node Metric
+ */
+export const NodeMetric: Array<SelectableValue<NodeMetricValue>> = [
+  { label: 'Heap memory used', value: NodeMetricValue.HEAP_MEMORY_USED },
+  { label: 'Heap memory committed', value: NodeMetricValue.HEAP_MEMORY_COMMITTED },
+  { label: 'Heap memory maximum', value: NodeMetricValue.HEAP_MEMORY_MAX },
+  { label: 'Non-heap memory used', value: NodeMetricValue.NON_HEAP_MEMORY_USED },
+  { label: 'Current CPU load', value: NodeMetricValue.CURRENT_CPU_LOAD },
+  { label: 'Average CPU load', value: NodeMetricValue.AVERAGE_CPU_LOAD },
+  { label: 'Current GC CPU load', value: NodeMetricValue.CURRENT_GC_CPU_LOAD },
+  { label: 'Current thread count', value: NodeMetricValue.CURRENT_THREAD_COUNT },
+  { label: 'Maximum thread count', value: NodeMetricValue.MAXIMUM_THREAD_COUNT },
+  { label: 'Current daemon thread count', value: NodeMetricValue.CURRENT_DAEMON_THREAD_COUNT },
+  { label: 'Uptime', value: NodeMetricValue.UP_TIME },
+  { label: 'Current active jobs', value: NodeMetricValue.CURRENT_ACTIVE_JOBS },
+  { label: 'Current waiting jobs', value: NodeMetricValue.CURRENT_WAITING_JOBS },
+  { label: 'Current rejected jobs', value: NodeMetricValue.CURRENT_REJECTED_JOBS },
+  { label: 'Total executed jobs', value: NodeMetricValue.TOTAL_EXECUTED_JOBS },
+  { label: 'Total executed tasks', value: NodeMetricValue.TOTAL_EXECUTED_TASKS },
+  { label: 'Total CPUs', value: NodeMetricValue.TOTAL_CPUS },
+];
+/**
+ * Cache Metric Values
+ *
+ * The (primary) size of a cache is provided by `cmd=size`,
+ * the reads, writes, hits and misses by `cmd=cache`, and
+ * the backup size, evictions and average times by the
+ * `SYS.METRICS` system view
+ */
+export enum CacheMetricValue {
+  SIZE = 'size',
+  BACKUP_SIZE = 'backupSize',
+  READS = 'reads',
+  WRITES = 'writes',
+  HITS = 'hits',
+  MISSES = 'misses',
+  EVICTIONS = 'evictions',
+  AVERAGE_GET_TIME = 'averageGetTime',
+  AVERAGE_PUT_TIME = 'averagePutTime',
+  AVERAGE_REMOVE_TIME = 'averageRemoveTime',
+}
+/**
+ * Cache Metric
+ */
+export const CacheMetric: Array<SelectableValue<CacheMetricValue>> = [
+  { label: 'Size (primary)', value: CacheMetricValue.SIZE },
+  { label: 'Size (backup)', value: CacheMetricValue.BACKUP_SIZE },
+  { label: 'Gets', value: CacheMetricValue.READS },
+  { label: 'Puts', value: CacheMetricValue.WRITES },
+  { label: 'Hits', value: CacheMetricValue.HITS },
+  { label: 'Misses', value: CacheMetricValue.MISSES },
+  { label: 'Evictions', value: CacheMetricValue.EVICTIONS },
+  { label: 'Average get time', value: CacheMetricValue.AVERAGE_GET_TIME },
+  { label: 'Average put time', value: CacheMetricValue.AVERAGE_PUT_TIME },
+  { label: 'Average remove time', value: CacheMetricValue.AVERAGE_REMOVE_TIME },
+];
+/**
+ * Variable Query Type Values
+ */
+export enum VariableQueryTypeValue {
+  CACHES = 'caches',
+  TABLES = 'tables',
+  COLUMNS = 'columns',
+  SQL = 'sql',
+}
+/**
+ * Variable Query Type
+ */
+export const VariableQueryType: Array<SelectableValue<VariableQueryTypeValue>> = [
+  {
+    label: 'Caches',
+    description: 'The names of the caches of the cluster.',
+    value: VariableQueryTypeValue.CACHES,
+  },
+  {
+    label: 'Tables',
+    description: 'The SQL tables of a certain cache.',
+    value: VariableQueryTypeValue.TABLES,
+  },
+  {
+    label: 'Columns',
+    description: 'The columns of a certain SQL table.',
+    value: VariableQueryTypeValue.COLUMNS,
+  },
+  {
+    label: 'SQL',
+    description: 'The values of the first column of an SQL query.',
+    value: VariableQueryTypeValue.SQL,
+  },
+];
+/**
+ * Load Balancing Values
+ */
+export enum LoadBalancingValue {
+  FAILOVER = 'failover',
+  ROUND_ROBIN = 'roundRobin',
+}
+/**
+ * Load Balancing
+ */
+export const LoadBalancing: Array<SelectableValue<LoadBalancingValue>> = [
+  {
+    label: 'Primary / secondary',
+    description: 'Requests are sent to the first healthy endpoint.',
+    value: LoadBalancingValue.FAILOVER,
+  },
+  {
+    label: 'Round robin',
+    description: 'Requests are distributed across all healthy endpoints.',
+    value: LoadBalancingValue.ROUND_ROBIN,
+  },
+];
+/**
+ * Type Override Values, i.e. the Grafana field
+ * types a Java type can be mapped onto
+ */
+export enum TypeOverrideValue {
+  NUMBER = 'number',
+  STRING = 'string',
+  TIME = 'time',
+  BOOLEAN = 'boolean',
+  OTHER = 'other',
+}
+/**
+ * Type Override
+ */
+export const TypeOverride: Array<SelectableValue<TypeOverrideValue>> = [
+  {
+    label: 'Number',
+    description: 'Values are converted into numbers.',
+    value: TypeOverrideValue.NUMBER,
+  },
+  {
+    label: 'String',
+    description: 'Values are rendered as text; objects and arrays as JSON.',
+    value: TypeOverrideValue.STRING,
+  },
+  {
+    label: 'Time',
+    description: 'Values are converted into epoch milliseconds.',
+    value: TypeOverrideValue.TIME,
+  },
+  {
+    label: 'Boolean',
+    description: 'Values are converted into booleans.',
+    value: TypeOverrideValue.BOOLEAN,
+  },
+  {
+    label: 'Other',
+    description: 'Values are provided as retrieved from Apache Ignite.',
+    value: TypeOverrideValue.OTHER,
+  },
 ];
+/**
+ * Parameter Source Values, i.e. where the value
+ * of an SQL query parameter is taken from
+ */
+export enum ParameterSourceValue {
+  LITERAL = 'literal',
+  VARIABLE = 'variable',
+  TIME_FROM = 'timeFrom',
+  TIME_TO = 'timeTo',
+}
+/**
+ * Parameter Source
+ */
+export const ParameterSource: Array<SelectableValue<ParameterSourceValue>> = [
+  {
+    label: 'Literal',
+    description: 'The value is provided as is.',
+    value: ParameterSourceValue.LITERAL,
+  },
+  {
+    label: 'Variable',
+    description: 'The value of a dashboard variable, e.g. $host.',
+    value: ParameterSourceValue.VARIABLE,
+  },
+  {
+    label: 'Time from',
+    description: 'The start of the time range.',
+    value: ParameterSourceValue.TIME_FROM,
+  },
+  {
+    label: 'Time to',
+    description: 'The end of the time range.',
+    value: ParameterSourceValue.TIME_TO,
+  },
+];
+/**
+ * Parameter Type Values
+ */
+export enum ParameterTypeValue {
+  NUMBER = 'number',
+  STRING = 'string',
+  TIMESTAMP = 'timestamp',
+}
+/**
+ * Parameter Type
+ */
+export const ParameterType: Array<SelectableValue<ParameterTypeValue>> = [
+  {
+    label: 'Number',
+    description: 'The value is bound as number.',
+    value: ParameterTypeValue.NUMBER,
+  },
+  {
+    label: 'String',
+    description: 'The value is bound as text.',
+    value: ParameterTypeValue.STRING,
+  },
+  {
+    label: 'Timestamp',
+    description: 'The value is bound as timestamp in the server time zone.',
+    value: ParameterTypeValue.TIMESTAMP,
+  },
+];
+/**
+ * The execution options of SQL queries; they are configured
+ * per query, and default to the ones of the data source.
+ * All options are sent as `qryfldexe` parameters.
+ */
+export interface IgniteQueryOptions {
+  /**
+   * SQL schema, e.g. `PUBLIC`
+   *
+   * @type {string}
+   */
+  schema?: string;
+  /**
+   * Enables joins of non-collocated data
+   *
+   * @type {boolean}
+   */
+  distributedJoins?: boolean;
+  /**
+   * Joins are executed in the order of the query
+   *
+   * @type {boolean}
+   */
+  enforceJoinOrder?: boolean;
+  /**
+   * The query refers to replicated caches only
+   *
+   * @type {boolean}
+   */
+  replicatedOnly?: boolean;
+  /**
+   * Results are fetched lazily, to reduce the
+   * memory consumption of large results
+   *
+   * @type {boolean}
+   */
+  lazy?: boolean;
+  /**
+   * Query timeout (in seconds)
+   *
+   * @type {number}
+   */
+  queryTimeout?: number;
+  /**
+   * The number of rows per result page
+   *
+   * @type {number}
+   */
+  pageSize?: number;
+}
 /**
  * Options configured for each DataSource instance
  */
-export interface IgniteDataSourceOptions extends DataSourceJsonData {
+export interface IgniteDataSourceOptions extends DataSourceJsonData, IgniteQueryOptions {
+  /**
+   * Primary Endpoint
+   *
+   * The data source url; it is provided as json data,
+   * as the url of a proxy route can only refer to the
+   * json data of the data source.
+   *
+   * @type {string}
+   */
+  primaryUrl?: string;
+  /**
+   * Additional Endpoints
+   *
+   * The urls of further REST endpoints of the cluster,
+   * used in addition to the primary data source url.
+   *
+   * @type {string[]}
+   */
+  endpoints?: string[];
+  /**
+   * Load Balancing
+   *
+   * @type {LoadBalancingValue}
+   */
+  loadBalancing?: LoadBalancingValue;
   /**
    * Partition Awareness
    *
@@ -75,6 +444,24 @@ export interface IgniteDataSourceOptions extends DataSourceJsonData {
    * @type {string}
    */
   user: string;
+  /**
+   * Token Authentication
+   *
+   * Send the access token configured in secure
+   * json data as `Authorization: Bearer` header.
+   *
+   * @type {boolean}
+   */
+  tokenAuth?: boolean;
+  /**
+   * Custom HTTP Headers
+   *
+   * Headers that are forwarded with every request,
+   * e.g. to an API gateway in front of Apache Ignite.
+   *
+   * @type {IgniteHttpHeader[]}
+   */
+  customHeaders?: IgniteHttpHeader[];
   /**
    * TLS Authentication
    *
@@ -93,15 +480,244 @@ export interface IgniteDataSourceOptions extends DataSourceJsonData {
    * @type {boolean}
    */
   tlsSkipVerify: boolean;
+  /**
+   * Maximum Rows
+   *
+   * The maximum number of rows that is retrieved
+   * for a certain SQL query; the result of queries
+   * exceeding this limit is truncated.
+   *
+   * @type {number}
+   */
+  maxRows?: number;
+  /**
+   * Metadata TTL
+   *
+   * The time (in seconds) the cache names and SQL
+   * metadata are reused before they are requested
+   * again; 0 disables the metadata cache.
+   *
+   * @type {number}
+   */
+  metadataTtl?: number;
+  /**
+   * Result Cache
+   *
+   * Enables the in-browser cache of SQL query results
+   *
+   * @type {boolean}
+   */
+  resultCache?: boolean;
+  /**
+   * Result Cache TTL
+   *
+   * The time (in seconds) a query result is reused;
+   * the time range of queries is aligned to it.
+   *
+   * @type {number}
+   */
+  resultCacheTtl?: number;
+  /**
+   * Result Cache Size
+   *
+   * The maximum memory size (in MB) of the cached results
+   *
+   * @type {number}
+   */
+  resultCacheSize?: number;
+  /**
+   * Type Overrides
+   *
+   * The Grafana field types of certain Java types,
+   * e.g. of custom classes or enums
+   *
+   * @type {IgniteTypeOverride[]}
+   */
+  typeOverrides?: IgniteTypeOverride[];
+  /**
+   * Server Time Zone
+   *
+   * Apache Ignite timestamps do not carry time zone
+   * information; they are interpreted in this time
+   * zone, e.g. `utc` or `Europe/Berlin`.
+   *
+   * @type {string}
+   */
+  timeZone?: string;
 }
 
-export interface IgniteQuery extends DataQuery {
+/**
+ * The position of a page of log lines: the time of
+ * the oldest log line of the previous pages, and the
+ * log lines with this time that were already shown
+ */
+export interface IgniteLogCursor {
+  /**
+   * Time (epoch milliseconds)
+   *
+   * @type {number}
+   */
+  time: number;
+  /**
+   * Java type of the time column
+   *
+   * @type {string}
+   */
+  timeType: string;
+  /**
+   * The keys of the shown log lines with this time
+   *
+   * @type {string[]}
+   */
+  lines: string[];
+}
+/**
+ * A custom HTTP header; the value of a secure header is
+ * stored as `httpHeaderValue{index}` in secure json data and
+ * added by the Grafana server, using Grafana's convention
+ * for custom data source headers.
+ */
+export interface IgniteHttpHeader {
+  /**
+   * Identifier
+   *
+   * @type {number}
+   */
+  id: number;
+  /**
+   * Header name
+   *
+   * @type {string}
+   */
+  name: string;
+  /**
+   * Header value (non-secure headers only)
+   *
+   * @type {string}
+   */
+  value?: string;
+  /**
+   * Secure header
+   *
+   * @type {boolean}
+   */
+  secure: boolean;
+  /**
+   * Index of a secure header, i.e. of its
+   * `httpHeaderName{n}` and `httpHeaderValue{n}`
+   *
+   * @type {number}
+   */
+  index?: number;
+}
+/**
+ * The mapping of a Java type onto a Grafana field
+ * type, overriding the built-in type conversion
+ */
+export interface IgniteTypeOverride {
+  /**
+   * Identifier
+   *
+   * @type {number}
+   */
+  id: number;
+  /**
+   * Java type name, e.g. `java.math.BigDecimal`
+   *
+   * @type {string}
+   */
+  javaType: string;
+  /**
+   * Field type
+   *
+   * @type {TypeOverrideValue}
+   */
+  fieldType: TypeOverrideValue;
+}
+
+/**
+ * A positional parameter of an SQL query, bound
+ * to a `?` placeholder and sent as `arg{n}`
+ */
+export interface IgniteQueryParameter {
+  /**
+   * Identifier
+   *
+   * @type {number}
+   */
+  id: number;
+  /**
+   * Source
+   *
+   * @type {ParameterSourceValue}
+   */
+  source: ParameterSourceValue;
+  /**
+   * Value; a literal or a dashboard variable
+   *
+   * @type {string}
+   */
+  value?: string;
+  /**
+   * Type
+   *
+   * @type {ParameterTypeValue}
+   */
+  type: ParameterTypeValue;
+}
+
+export interface IgniteQuery extends DataQuery, IgniteQueryOptions {
+  /**
+   * Query type; SQL, if not specified
+   *
+   * @type {QueryTypeValue}
+   */
+  queryType?: QueryTypeValue;
   /**
    * Cache name
    *
    * @type {string}
    */
   cacheName?: string;
+  /**
+   * Key (get)
+   *
+   * @type {string}
+   */
+  key?: string;
+  /**
+   * Comma-separated list of keys (get all)
+   *
+   * @type {string}
+   */
+  keys?: string;
+  /**
+   * Key type, e.g. `int` or `long`; keys
+   * are sent as strings by default
+   *
+   * @type {string}
+   */
+  keyType?: string;
+  /**
+   * Node metrics (cluster nodes)
+   *
+   * @type {NodeMetricValue[]}
+   */
+  nodeMetrics?: NodeMetricValue[];
+  /**
+   * Comma-separated list of node attributes
+   * that are provided as labels (cluster nodes)
+   *
+   * @type {string}
+   */
+  nodeAttributes?: string;
+  /**
+   * Cache metrics (cache metrics); the cache name
+   * may refer to a multi-value variable
+   *
+   * @type {CacheMetricValue[]}
+   */
+  cacheMetrics?: CacheMetricValue[];
   /**
    * Format
    *
@@ -114,12 +730,171 @@ export interface IgniteQuery extends DataQuery {
    * @type {string}
    */
   timeColumn?: string;
+  /**
+   * Group by columns
+   *
+   * A comma-separated list of columns that are used
+   * to split a time series result into one series per
+   * combination of their values.
+   *
+   * @type {string}
+   */
+  groupBy?: string;
+  /**
+   * Message column (logs); the first text
+   * column is used, if not specified
+   *
+   * @type {string}
+   */
+  messageColumn?: string;
+  /**
+   * Level column (logs)
+   *
+   * @type {string}
+   */
+  levelColumn?: string;
+  /**
+   * Comma-separated list of columns that are
+   * provided as labels of the log lines (logs)
+   *
+   * @type {string}
+   */
+  labelColumns?: string;
+  /**
+   * The maximum number of log lines per page (logs)
+   *
+   * @type {number}
+   */
+  logLimit?: number;
+  /**
+   * The oldest log lines of the previous pages; only
+   * log lines that were not shown yet are requested,
+   * if specified (logs)
+   *
+   * @type {IgniteLogCursor}
+   */
+  logCursor?: IgniteLogCursor;
   /**
    * Query
    *
    * @type {string}
    */
   query?: string;
+  /**
+   * The parameters of the SQL query, in the
+   * order of their `?` placeholders
+   *
+   * @type {IgniteQueryParameter[]}
+   */
+  parameters?: IgniteQueryParameter[];
+  /**
+   * Explain
+   *
+   * The query is wrapped in `EXPLAIN`, and the
+   * execution plan is provided as table.
+   *
+   * @type {boolean}
+   */
+  explain?: boolean;
+  /**
+   * Skip Cache
+   *
+   * Disables the result cache of the data source
+   * for this query, e.g. for real-time panels.
+   *
+   * @type {boolean}
+   */
+  skipCache?: boolean;
+  /**
+   * Streaming
+   *
+   * Time series queries are polled, and only rows newer
+   * than the latest value of the time column are fetched.
+   *
+   * @type {boolean}
+   */
+  streaming?: boolean;
+  /**
+   * Streaming interval (in seconds)
+   *
+   * @type {number}
+   */
+  streamInterval?: number;
+  /**
+   * The maximum number of rows retained per series
+   *
+   * @type {number}
+   */
+  streamCapacity?: number;
+}
+/**
+ * The query that is used to populate
+ * dashboard variables
+ */
+export interface IgniteVariableQuery {
+  /**
+   * Query type
+   *
+   * @type {VariableQueryTypeValue}
+   */
+  queryType: VariableQueryTypeValue;
+  /**
+   * Cache name
+   *
+   * @type {string}
+   */
+  cacheName?: string;
+  /**
+   * Table name
+   *
+   * @type {string}
+   */
+  tableName?: string;
+  /**
+   * Query
+   *
+   * @type {string}
+   */
+  query?: string;
+}
+/**
+ * The (paged) result of an SQL fields query,
+ * collected from subsequent Apache Ignite
+ * REST API requests
+ */
+export interface IgniteQueryResult {
+  /**
+   * Fields metadata
+   *
+   * @type {any[]}
+   */
+  fieldsMetadata: any[];
+  /**
+   * Result rows
+   *
+   * @type {any[][]}
+   */
+  items: any[][];
+  /**
+   * Indicates whether the result was truncated
+   * by the configured maximum number of rows
+   *
+   * @type {boolean}
+   */
+  truncated: boolean;
+  /**
+   * The url of the endpoint that served the query
+   *
+   * @type {string}
+   */
+  endpoint?: string;
+  /**
+   * The creation time of a result that was
+   * served from the result cache
+   *
+   * @type {number}
+   */
+  cachedAt?: number;
 }
 /**
  * Sensitive information, such as passwords, tokens and API keys, are
@@ -140,6 +915,12 @@ export interface IgniteSecureJsonData {
    * @type {string}
    */
   password?: string;
+  /**
+   * Access token
+   *
+   * @type {string}
+   */
+  accessToken?: string;
   /**
    * TLS Client Certificate
    *
@@ -158,4 +939,9 @@ export interface IgniteSecureJsonData {
    * @type {string}
    */
   tlsCACert?: string;
+  /**
+   * Values of secure custom HTTP headers,
+   * i.e. `httpHeaderValue{n}`
+   */
+  [httpHeaderValue: string]: string | undefined;
 }
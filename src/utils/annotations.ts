@@ -0,0 +1,101 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { AnnotationEvent, DataFrame, Field } from '@grafana/data';
+import { toEpochMillis } from './time';
+
+/**
+ * The column names that describe an annotation; SQL
+ * column names are matched case-insensitively, and
+ * `time_end` is accepted for `timeEnd`.
+ */
+const ANNOTATION_COLUMNS: Record<string, string[]> = {
+  time: ['time'],
+  timeEnd: ['timeend', 'time_end'],
+  title: ['title'],
+  text: ['text'],
+  tags: ['tags'],
+};
+/**
+ * A helper method to find the field of an annotation column
+ */
+function findField(frame: DataFrame, column: string): Field | undefined {
+  const names = ANNOTATION_COLUMNS[column];
+  return frame.fields.find((field) => names.includes(field.name.toLowerCase()));
+}
+/**
+ * A helper method to transform a tags value, i.e. a list
+ * or a comma-separated string, into a list of tags
+ */
+function toTags(value: any): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const tags = Array.isArray(value) ? value.map((tag) => String(tag)) : String(value).split(',');
+  return tags.map((tag) => tag.trim()).filter((tag) => tag !== '');
+}
+/**
+ * This method transforms the frames of an annotation query
+ * into Grafana annotations: each row with a valid `time`
+ * value results in an annotation; rows with a different
+ * `timeEnd` value describe a region.
+ *
+ * Example:
+ *
+ * SELECT deployed_at AS time, finished_at AS timeEnd,
+ *        service AS title, description AS text, 'deploy,prod' AS tags
+ *   FROM deployments WHERE $__timeFilter(deployed_at)
+ */
+export function toAnnotationEvents(frames: DataFrame[], timeZone?: string): AnnotationEvent[] {
+  const events: AnnotationEvent[] = [];
+  frames.forEach((frame) => {
+    const time = findField(frame, 'time');
+    if (time === undefined) {
+      return;
+    }
+
+    const timeEnd = findField(frame, 'timeEnd');
+    const title = findField(frame, 'title');
+    const text = findField(frame, 'text');
+    const tags = findField(frame, 'tags');
+
+    for (let i = 0; i < frame.length; i++) {
+      const start = toEpochMillis(time.values.get(i), timeZone);
+      if (start === null) {
+        continue;
+      }
+
+      const event: AnnotationEvent = {
+        time: start,
+        title: title !== undefined ? String(title.values.get(i) || '') : undefined,
+        text: text !== undefined ? String(text.values.get(i) || '') : '',
+        tags: tags !== undefined ? toTags(tags.values.get(i)) : [],
+      };
+
+      const end = timeEnd !== undefined ? toEpochMillis(timeEnd.values.get(i), timeZone) : null;
+      if (end !== null && end !== start) {
+        event.timeEnd = end;
+        event.isRegion = true;
+      }
+
+      events.push(event);
+    }
+  });
+
+  return events;
+}
@@ -0,0 +1,118 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { CacheMetricValue } from '../types';
+import { toCacheMetricsFrame, toSystemMetrics, toSystemMetricsQuery } from './caches';
+
+const time = 1614600000000;
+
+/**
+ * The response of `cmd=cache`
+ */
+const cacheMetrics = { createTime: 1614500000000, hits: 7, misses: 3, reads: 10, writes: 2 };
+
+/**
+ * The rows of the `SYS.METRICS` query
+ */
+const rows = [
+  ['cache.Person.OffHeapBackupEntriesCount', '40'],
+  ['cache.Person.CacheEvictions', '5'],
+  ['cache.Person.GetTimeTotal', '30000'],
+  ['cache.Person.CacheGets', '10'],
+  ['cache.Person.PutTimeTotal', '0'],
+  ['cache.Person.CachePuts', '0'],
+];
+
+describe('toSystemMetricsQuery', () => {
+  it('requests the registry metrics of the selected metrics', () => {
+    const query = toSystemMetricsQuery('Person', [
+      CacheMetricValue.SIZE,
+      CacheMetricValue.READS,
+      CacheMetricValue.EVICTIONS,
+      CacheMetricValue.AVERAGE_GET_TIME,
+    ]);
+
+    expect(query).toEqual({
+      sql: 'SELECT NAME, VALUE FROM SYS.METRICS WHERE NAME IN (?, ?, ?)',
+      args: ['cache.Person.CacheEvictions', 'cache.Person.GetTimeTotal', 'cache.Person.CacheGets'],
+    });
+  });
+
+  it('requests nothing for metrics of cmd=size and cmd=cache', () => {
+    expect(toSystemMetricsQuery('Person', [CacheMetricValue.SIZE, CacheMetricValue.HITS])).toBeUndefined();
+  });
+});
+
+describe('toCacheMetricsFrame', () => {
+  it('provides one field per metric with the cache as label', () => {
+    const metrics = [
+      CacheMetricValue.SIZE,
+      CacheMetricValue.BACKUP_SIZE,
+      CacheMetricValue.READS,
+      CacheMetricValue.WRITES,
+      CacheMetricValue.HITS,
+      CacheMetricValue.MISSES,
+      CacheMetricValue.EVICTIONS,
+      CacheMetricValue.AVERAGE_GET_TIME,
+      CacheMetricValue.AVERAGE_PUT_TIME,
+    ];
+    const frame = toCacheMetricsFrame('A', 'Person', metrics, 120, cacheMetrics, toSystemMetrics('Person', rows), time);
+
+    expect(frame.refId).toBe('A');
+    expect(frame.name).toBe('Person');
+    expect(frame.length).toBe(1);
+    expect(frame.fields.map((field) => field.name)).toEqual(['time', ...metrics]);
+    expect(frame.fields[1].labels).toEqual({ cache: 'Person' });
+    expect(frame.fields.map((field) => field.values.get(0))).toEqual([time, 120, 40, 10, 2, 7, 3, 5, 3, 0]);
+  });
+
+  it('provides average times in microseconds', () => {
+    const frame = toCacheMetricsFrame(
+      'A',
+      'Person',
+      [CacheMetricValue.AVERAGE_GET_TIME],
+      null,
+      {},
+      toSystemMetrics('Person', rows),
+      time
+    );
+
+    expect(frame.fields[1].config.unit).toBe('µs');
+    expect(frame.fields[1].values.get(0)).toBe(3);
+  });
+
+  it('provides null for metrics that are not available', () => {
+    const metrics = [CacheMetricValue.SIZE, CacheMetricValue.HITS, CacheMetricValue.AVERAGE_REMOVE_TIME];
+    const frame = toCacheMetricsFrame('A', 'Person', metrics, null, {}, {}, time);
+
+    expect(frame.fields.slice(1).map((field) => field.values.get(0))).toEqual([null, null, null]);
+  });
+});
+
+describe('toSystemMetrics', () => {
+  it('ignores the metrics of other caches', () => {
+    expect(
+      toSystemMetrics('Person', [
+        ['cache.Person.CacheEvictions', '5'],
+        ['cache.City.CacheEvictions', '1'],
+      ])
+    ).toEqual({
+      CacheEvictions: '5',
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { FieldType, MutableDataFrame } from '@grafana/data';
+import { CacheMetricValue } from '../types';
+
+/**
+ * The attribute names of the cache metrics
+ * provided by `cmd=cache`
+ */
+const CACHE_METRIC_NAMES: Record<string, string> = {
+  [CacheMetricValue.READS]: 'reads',
+  [CacheMetricValue.WRITES]: 'writes',
+  [CacheMetricValue.HITS]: 'hits',
+  [CacheMetricValue.MISSES]: 'misses',
+};
+/**
+ * The metrics of the `cache.{cacheName}` registry, provided
+ * by the `SYS.METRICS` system view, that the other cache
+ * metrics are derived from; average times are computed from
+ * the total time (in nanoseconds) and the number of operations.
+ */
+const SYSTEM_METRIC_NAMES: Record<string, string[]> = {
+  [CacheMetricValue.BACKUP_SIZE]: ['OffHeapBackupEntriesCount'],
+  [CacheMetricValue.EVICTIONS]: ['CacheEvictions'],
+  [CacheMetricValue.AVERAGE_GET_TIME]: ['GetTimeTotal', 'CacheGets'],
+  [CacheMetricValue.AVERAGE_PUT_TIME]: ['PutTimeTotal', 'CachePuts'],
+  [CacheMetricValue.AVERAGE_REMOVE_TIME]: ['RemoveTimeTotal', 'CacheRemovals'],
+};
+/**
+ * Average times are provided in microseconds
+ */
+const CACHE_METRIC_UNITS: Record<string, string> = {
+  [CacheMetricValue.AVERAGE_GET_TIME]: 'µs',
+  [CacheMetricValue.AVERAGE_PUT_TIME]: 'µs',
+  [CacheMetricValue.AVERAGE_REMOVE_TIME]: 'µs',
+};
+/**
+ * This method determines whether one of the selected
+ * metrics is provided by `cmd=cache`
+ */
+export function hasCacheMetrics(metrics: string[]): boolean {
+  return metrics.some((metric) => CACHE_METRIC_NAMES[metric] !== undefined);
+}
+/**
+ * This method builds the SQL query of the `SYS.METRICS`
+ * system view that retrieves the registry metrics of the
+ * selected cache metrics; the metric names are sent as
+ * query arguments. Undefined, if no registry metric is
+ * selected.
+ *
+ * Example:
+ *
+ * SELECT NAME, VALUE FROM SYS.METRICS WHERE NAME IN (?, ?)
+ *
+ * arg1=cache.Person.GetTimeTotal&arg2=cache.Person.CacheGets
+ */
+export function toSystemMetricsQuery(
+  cacheName: string,
+  metrics: string[]
+): { sql: string; args: string[] } | undefined {
+  const args: string[] = [];
+  metrics.forEach((metric) => {
+    (SYSTEM_METRIC_NAMES[metric] || []).forEach((name) => {
+      const arg = `cache.${cacheName}.${name}`;
+      if (!args.includes(arg)) {
+        args.push(arg);
+      }
+    });
+  });
+  if (args.length === 0) {
+    return undefined;
+  }
+
+  const placeholders = args.map(() => '?').join(', ');
+  return { sql: `SELECT NAME, VALUE FROM SYS.METRICS WHERE NAME IN (${placeholders})`, args };
+}
+/**
+ * This method transforms the rows of the `SYS.METRICS`
+ * query into the registry metrics of a cache, by their
+ * name without the `cache.{cacheName}.` prefix.
+ */
+export function toSystemMetrics(cacheName: string, rows: any[][]): Record<string, any> {
+  const prefix = `cache.${cacheName}.`;
+
+  const systemMetrics: Record<string, any> = {};
+  rows.forEach((row) => {
+    const name = String(row[0]);
+    if (name.startsWith(prefix)) {
+      systemMetrics[name.substring(prefix.length)] = row[1];
+    }
+  });
+  return systemMetrics;
+}
+/*
+ * A helper method to determine the value of a cache
+ * metric that is derived from the registry metrics
+ */
+function toSystemMetricValue(metric: string, systemMetrics: Record<string, any>): number | null {
+  const names = SYSTEM_METRIC_NAMES[metric];
+  const values = names.map((name) => {
+    const value = systemMetrics[name];
+    return value === undefined || value === null || value === '' ? NaN : Number(value);
+  });
+  if (values.some((value) => isNaN(value))) {
+    return null;
+  }
+  if (values.length === 1) {
+    return values[0];
+  }
+  /*
+   * Average time (in microseconds) of the operations,
+   * as computed by Apache Ignite's `CacheMetrics`
+   */
+  const [total, count] = values;
+  return count === 0 ? 0 : total / 1000 / count;
+}
+/**
+ * This method transforms the size and the metrics of a
+ * cache into a frame with the sample time and one numeric
+ * field per selected metric; the cache name is provided
+ * as label.
+ *
+ * Example (cmd=cache):
+ *
+ * {
+ * "createTime": 1415179251551,
+ * "hits": 0,
+ * "misses": 0,
+ * "readTime": 1415179251551,
+ * "reads": 0,
+ * "writeTime": 1415179252198,
+ * "writes": 2
+ * }
+ */
+export function toCacheMetricsFrame(
+  refId: string,
+  cacheName: string,
+  metrics: string[],
+  size: number | null,
+  cacheMetrics: Record<string, any>,
+  systemMetrics: Record<string, any>,
+  time: number
+): MutableDataFrame {
+  const labels = { cache: cacheName };
+
+  const frame = new MutableDataFrame({
+    refId,
+    name: cacheName,
+    fields: [
+      { name: 'time', type: FieldType.time },
+      ...metrics.map((metric) => {
+        return {
+          name: metric,
+          type: FieldType.number,
+          labels,
+          config: CACHE_METRIC_UNITS[metric] ? { unit: CACHE_METRIC_UNITS[metric] } : {},
+        };
+      }),
+    ],
+  });
+
+  const values = metrics.map((metric) => {
+    if (metric === CacheMetricValue.SIZE) {
+      return size;
+    }
+    if (SYSTEM_METRIC_NAMES[metric] !== undefined) {
+      return toSystemMetricValue(metric, systemMetrics);
+    }
+
+    const value = cacheMetrics[CACHE_METRIC_NAMES[metric]];
+    return value === undefined || value === null ? null : Number(value);
+  });
+  frame.appendRow([time, ...values]);
+
+  return frame;
+}
@@ -0,0 +1,244 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { FieldType } from '@grafana/data';
+import { IgniteTypeOverride, TypeOverrideValue } from '../types';
+import { convertResult, convertValue, toFieldType } from './conversion';
+
+/**
+ * The Java types of SQL columns, with a value as provided
+ * by Apache Ignite's REST API and the converted value
+ */
+const JAVA_TYPES: Array<[string, FieldType, any, any]> = [
+  ['java.lang.Boolean', FieldType.boolean, true, true],
+  ['boolean', FieldType.boolean, 'false', false],
+  ['java.lang.Byte', FieldType.number, 127, 127],
+  ['byte', FieldType.number, -128, -128],
+  ['java.lang.Short', FieldType.number, 32767, 32767],
+  ['short', FieldType.number, -1, -1],
+  ['java.lang.Integer', FieldType.number, 42, 42],
+  ['int', FieldType.number, 7, 7],
+  ['java.lang.Long', FieldType.number, 1614600000000, 1614600000000],
+  ['long', FieldType.number, '9007199254740991', 9007199254740991],
+  ['java.lang.Float', FieldType.number, 1.5, 1.5],
+  ['float', FieldType.number, 2.25, 2.25],
+  ['java.lang.Double', FieldType.number, 3.14, 3.14],
+  ['double', FieldType.number, -0.5, -0.5],
+  ['java.math.BigDecimal', FieldType.number, '1234.5678', 1234.5678],
+  ['java.math.BigInteger', FieldType.number, '12345678901234567890', 12345678901234567890],
+  ['java.lang.String', FieldType.string, 'Berlin', 'Berlin'],
+  ['java.lang.Character', FieldType.string, 'x', 'x'],
+  ['char', FieldType.string, 'y', 'y'],
+  ['java.util.UUID', FieldType.string, '123e4567-e89b-12d3-a456-426614174000', '123e4567-e89b-12d3-a456-426614174000'],
+  ['org.apache.ignite.lang.IgniteUuid', FieldType.string, 'c4a1-0001', 'c4a1-0001'],
+  ['java.sql.Date', FieldType.time, '2021-03-01', 1614556800000],
+  ['java.sql.Timestamp', FieldType.time, '2021-03-01 12:00:00.0', 1614600000000],
+  ['java.util.Date', FieldType.time, 1614600000000, 1614600000000],
+  ['java.time.LocalDate', FieldType.time, '2021-03-01', 1614556800000],
+  ['java.time.LocalDateTime', FieldType.time, '2021-03-01 12:00:00', 1614600000000],
+  ['java.time.Instant', FieldType.time, '2021-03-01T12:00:00Z', 1614600000000],
+  ['java.sql.Time', FieldType.string, '12:00:00', '12:00:00'],
+  ['java.time.LocalTime', FieldType.string, '12:00:00.5', '12:00:00.5'],
+  ['[B', FieldType.string, [1, 171, -1], '0x01abff'],
+  ['byte[]', FieldType.string, 'AQID', 'AQID'],
+];
+
+describe('toFieldType', () => {
+  it.each(JAVA_TYPES)('maps %s to %s', (javaType, fieldType) => {
+    expect(toFieldType(javaType)).toBe(fieldType);
+  });
+
+  it('renders arrays as text', () => {
+    expect(toFieldType('[I')).toBe(FieldType.string);
+    expect(toFieldType('java.lang.String[]')).toBe(FieldType.string);
+  });
+
+  it('provides no type for unknown types', () => {
+    expect(toFieldType('org.example.Address')).toBeUndefined();
+  });
+
+  it('prefers overrides over the built-in types', () => {
+    const overrides: IgniteTypeOverride[] = [
+      { id: 1, javaType: 'java.lang.Long', fieldType: TypeOverrideValue.TIME },
+      { id: 2, javaType: 'org.example.Money', fieldType: TypeOverrideValue.NUMBER },
+    ];
+
+    expect(toFieldType('java.lang.Long', overrides)).toBe(FieldType.time);
+    expect(toFieldType('org.example.Money', overrides)).toBe(FieldType.number);
+    expect(toFieldType('java.lang.Integer', overrides)).toBe(FieldType.number);
+  });
+});
+
+describe('convertValue', () => {
+  it.each(JAVA_TYPES)('converts the values of %s', (javaType, fieldType, value, converted) => {
+    expect(convertValue(value, fieldType, javaType, 'utc')).toEqual(converted);
+  });
+
+  it.each(JAVA_TYPES)('converts null values of %s to null', (javaType, fieldType) => {
+    expect(convertValue(null, fieldType, javaType, 'utc')).toBeNull();
+    expect(convertValue(undefined, fieldType, javaType, 'utc')).toBeNull();
+  });
+
+  it('converts invalid numbers to null', () => {
+    expect(convertValue('n/a', FieldType.number)).toBeNull();
+  });
+
+  it('converts enums to their name or ordinal', () => {
+    const value = { typeId: 1, ordinal: 2, name: 'GOLD' };
+
+    expect(convertValue(value, FieldType.string)).toBe('GOLD');
+    expect(convertValue(value, FieldType.number)).toBe(2);
+  });
+
+  it('interprets zone-less timestamps in the server time zone', () => {
+    expect(convertValue('2021-03-01 13:00:00.0', FieldType.time, 'java.sql.Timestamp', 'Europe/Berlin')).toBe(
+      1614600000000
+    );
+  });
+});
+
+describe('convertResult', () => {
+  const metadata = (fields: Array<[string, string]>) =>
+    fields.map(([fieldName, fieldTypeName]) => ({ fieldName, fieldTypeName }));
+
+  it('converts the columns with respect to their Java type', () => {
+    const { fields, rows } = convertResult(
+      metadata([
+        ['NAME', 'java.lang.String'],
+        ['AGE', 'java.lang.Integer'],
+        ['UPDATED', 'java.sql.Timestamp'],
+      ]),
+      [
+        ['John', 42, '2021-03-01 12:00:00.0'],
+        [null, null, null],
+      ],
+      { timeZone: 'utc' }
+    );
+
+    expect(fields).toEqual([
+      { name: 'NAME', type: FieldType.string },
+      { name: 'AGE', type: FieldType.number },
+      { name: 'UPDATED', type: FieldType.time },
+    ]);
+    expect(rows).toEqual([
+      ['John', 42, 1614600000000],
+      [null, null, null],
+    ]);
+  });
+
+  it('interprets the time column of a time series as time', () => {
+    const { fields, rows } = convertResult(metadata([['TS', 'java.lang.Long']]), [[1614600000000]], {
+      timeField: 'TS',
+    });
+
+    expect(fields).toEqual([{ name: 'TS', type: FieldType.time }]);
+    expect(rows).toEqual([[1614600000000]]);
+  });
+
+  it('applies type overrides', () => {
+    const overrides: IgniteTypeOverride[] = [
+      { id: 1, javaType: 'java.math.BigDecimal', fieldType: TypeOverrideValue.STRING },
+      { id: 2, javaType: 'org.example.Flag', fieldType: TypeOverrideValue.BOOLEAN },
+    ];
+    const { fields, rows } = convertResult(
+      metadata([
+        ['PRICE', 'java.math.BigDecimal'],
+        ['ACTIVE', 'org.example.Flag'],
+      ]),
+      [['12345678901234567890.01', 'TRUE']],
+      { overrides }
+    );
+
+    expect(fields.map((field) => field.type)).toEqual([FieldType.string, FieldType.boolean]);
+    expect(rows).toEqual([['12345678901234567890.01', true]]);
+  });
+
+  it('infers the type of unknown columns from their values', () => {
+    const { fields, rows } = convertResult(
+      metadata([
+        ['LEVEL', 'org.example.Level'],
+        ['SCORE', 'org.example.Score'],
+      ]),
+      [
+        [{ typeId: 1, ordinal: 0, name: 'LOW' }, 1],
+        [null, 2.5],
+      ],
+      {}
+    );
+
+    expect(fields).toEqual([
+      { name: 'LEVEL', type: FieldType.string },
+      { name: 'SCORE', type: FieldType.number },
+    ]);
+    expect(rows).toEqual([
+      ['LOW', 1],
+      [null, 2.5],
+    ]);
+  });
+
+  it('flattens nested objects into dotted fields of all rows', () => {
+    const { fields, rows } = convertResult(
+      metadata([['ADDRESS', 'org.example.Address']]),
+      [[{ city: 'Berlin', geo: { lat: 52.5 } }], [{ city: 'Paris', zip: '75001' }], [null]],
+      {}
+    );
+
+    expect(fields).toEqual([
+      { name: 'ADDRESS.city', type: FieldType.string },
+      { name: 'ADDRESS.geo.lat', type: FieldType.number },
+      { name: 'ADDRESS.zip', type: FieldType.string },
+    ]);
+    expect(rows).toEqual([
+      ['Berlin', 52.5, null],
+      ['Paris', null, '75001'],
+      [null, null, null],
+    ]);
+  });
+
+  it('makes flattened names unique that collide with a column', () => {
+    const { fields, rows } = convertResult(
+      metadata([
+        ['ADDRESS', 'org.example.Address'],
+        ['ADDRESS.city', 'java.lang.String'],
+      ]),
+      [[{ city: 'Berlin' }, 'Rome']],
+      {}
+    );
+
+    expect(fields.map((field) => field.name)).toEqual(['ADDRESS.city (2)', 'ADDRESS.city']);
+    expect(rows).toEqual([['Berlin', 'Rome']]);
+  });
+
+  it('makes flattened names unique that collide within an object', () => {
+    const { fields, rows } = convertResult(
+      metadata([['ADDRESS', 'org.example.Address']]),
+      [[{ 'geo.lat': 1, geo: { lat: 52.5 } }]],
+      {}
+    );
+
+    expect(fields.map((field) => field.name)).toEqual(['ADDRESS.geo.lat', 'ADDRESS.geo.lat (2)']);
+    expect(rows).toEqual([[1, 52.5]]);
+  });
+
+  it('renders nested arrays as text', () => {
+    const { fields, rows } = convertResult(metadata([['PERSON', 'org.example.Person']]), [[{ tags: ['a', 'b'] }]], {});
+
+    expect(fields).toEqual([{ name: 'PERSON.tags', type: FieldType.string }]);
+    expect(rows).toEqual([['["a","b"]']]);
+  });
+});
@@ -0,0 +1,316 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { FieldType } from '@grafana/data';
+import { IgniteTypeOverride, TypeOverrideValue } from '../types';
+import { flattenObject, inferFieldType, uniqueName } from './entries';
+import { toEpochMillis } from './time';
+
+/**
+ * The Grafana field types of the Java types that
+ * Apache Ignite uses for SQL columns
+ */
+const JAVA_FIELD_TYPES: Record<string, FieldType> = {
+  'java.lang.Boolean': FieldType.boolean,
+  boolean: FieldType.boolean,
+  'java.lang.Byte': FieldType.number,
+  byte: FieldType.number,
+  'java.lang.Short': FieldType.number,
+  short: FieldType.number,
+  'java.lang.Integer': FieldType.number,
+  int: FieldType.number,
+  'java.lang.Long': FieldType.number,
+  long: FieldType.number,
+  'java.lang.Float': FieldType.number,
+  float: FieldType.number,
+  'java.lang.Double': FieldType.number,
+  double: FieldType.number,
+  'java.math.BigDecimal': FieldType.number,
+  'java.math.BigInteger': FieldType.number,
+  'java.lang.String': FieldType.string,
+  'java.lang.Character': FieldType.string,
+  char: FieldType.string,
+  'java.util.UUID': FieldType.string,
+  'org.apache.ignite.lang.IgniteUuid': FieldType.string,
+  /*
+   * Dates and timestamps are converted into epoch
+   * milliseconds, e.g. 2018-01-01 or 2018-02-18 01:01:01.0
+   */
+  'java.sql.Date': FieldType.time,
+  'java.sql.Timestamp': FieldType.time,
+  'java.util.Date': FieldType.time,
+  'java.time.LocalDate': FieldType.time,
+  'java.time.LocalDateTime': FieldType.time,
+  'java.time.Instant': FieldType.time,
+  /*
+   * Times of day are rendered as text, e.g. 01:01:01
+   */
+  'java.sql.Time': FieldType.string,
+  'java.time.LocalTime': FieldType.string,
+  /*
+   * Binary values are rendered as text, either as provided
+   * (Base64) or as hexadecimal string
+   */
+  '[B': FieldType.string,
+  'byte[]': FieldType.string,
+};
+/**
+ * The field types of the type override options
+ */
+const OVERRIDE_FIELD_TYPES: Record<string, FieldType> = {
+  [TypeOverrideValue.NUMBER]: FieldType.number,
+  [TypeOverrideValue.STRING]: FieldType.string,
+  [TypeOverrideValue.TIME]: FieldType.time,
+  [TypeOverrideValue.BOOLEAN]: FieldType.boolean,
+  [TypeOverrideValue.OTHER]: FieldType.other,
+};
+/**
+ * A converted column of an SQL query result
+ */
+export interface ConvertedField {
+  /**
+   * Field name; flattened object columns
+   * are provided with dotted names
+   *
+   * @type {string}
+   */
+  name: string;
+  /**
+   * Field type
+   *
+   * @type {FieldType}
+   */
+  type: FieldType;
+}
+/**
+ * The options of the conversion of an SQL query result
+ */
+export interface ConversionOptions {
+  /**
+   * The time column of a time series
+   *
+   * @type {string}
+   */
+  timeField?: string;
+  /**
+   * The time zone of zone-less timestamps
+   *
+   * @type {string}
+   */
+  timeZone?: string;
+  /**
+   * The configured type overrides
+   *
+   * @type {IgniteTypeOverride[]}
+   */
+  overrides?: IgniteTypeOverride[];
+}
+/**
+ * A helper method to determine whether a Java
+ * type describes an array, e.g. `[I` or `int[]`
+ */
+function isArrayType(javaType: string): boolean {
+  return (javaType.startsWith('[') || javaType.endsWith('[]')) && JAVA_FIELD_TYPES[javaType] === undefined;
+}
+/**
+ * A helper method to determine whether a value is the
+ * JSON representation of a Java enum, e.g. a BinaryEnum
+ */
+function isEnumValue(value: any): boolean {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const names = Object.keys(value);
+  return (
+    (names.includes('name') || names.includes('ordinal')) &&
+    names.every((name) => ['name', 'ordinal', 'typeId', 'enumName', 'clsName'].includes(name))
+  );
+}
+/**
+ * A helper method to determine whether a value is a nested
+ * object, e.g. the JSON representation of a BinaryObject
+ */
+function isObjectValue(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !isEnumValue(value);
+}
+/**
+ * A helper method to render binary values: arrays of bytes
+ * are rendered as hexadecimal string, Base64 strings as is
+ */
+function toBinary(value: any): string {
+  if (!Array.isArray(value)) {
+    return String(value);
+  }
+  return (
+    '0x' +
+    value
+      .map((byte: number) => {
+        const hex = (byte & 0xff).toString(16);
+        return hex.length === 1 ? '0' + hex : hex;
+      })
+      .join('')
+  );
+}
+/**
+ * This method determines the Grafana field type of a Java type;
+ * configured overrides take precedence over the built-in types,
+ * and arrays are rendered as text.
+ */
+export function toFieldType(javaType: string, overrides?: IgniteTypeOverride[]): FieldType | undefined {
+  const override = (overrides || []).find((o) => o.javaType === javaType);
+  if (override !== undefined) {
+    return OVERRIDE_FIELD_TYPES[override.fieldType] || FieldType.other;
+  }
+  if (JAVA_FIELD_TYPES[javaType] !== undefined) {
+    return JAVA_FIELD_TYPES[javaType];
+  }
+  if (isArrayType(javaType)) {
+    return FieldType.string;
+  }
+
+  return undefined;
+}
+/**
+ * This method converts a single value retrieved from Apache
+ * Ignite into the representation of the provided field type.
+ */
+export function convertValue(value: any, type: FieldType, javaType = '', timeZone?: string): any {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  switch (type) {
+    case FieldType.time:
+      return toEpochMillis(value, timeZone);
+    case FieldType.number: {
+      if (typeof value === 'number') {
+        return value;
+      }
+      /*
+       * BigDecimal and BigInteger values may be provided
+       * as strings; precision beyond 2^53 is lost.
+       */
+      const number = Number(typeof value === 'object' && isEnumValue(value) ? value.ordinal : value);
+      return isNaN(number) ? null : number;
+    }
+    case FieldType.boolean:
+      return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true';
+    case FieldType.string: {
+      if (javaType === '[B' || javaType === 'byte[]') {
+        return toBinary(value);
+      }
+      if (isEnumValue(value)) {
+        return value.name !== undefined ? String(value.name) : String(value.ordinal);
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+    default:
+      return value;
+  }
+}
+/**
+ * This method converts the result of an SQL fields query into
+ * typed fields and rows: values are converted with respect to
+ * the Java type of their column, and columns of unknown types
+ * are inferred from their values; nested objects, e.g. Binary
+ * Objects, are flattened into dotted fields.
+ *
+ * Example:
+ *
+ * "fieldsMetadata": [
+ * {
+ * "fieldName": "FIRSTNAME",
+ * "fieldTypeName": "java.lang.String",
+ * "schemaName": "person",
+ * "typeName": "PERSON"
+ * }
+ * ],
+ *
+ * For more information: https://ignite.apache.org/docs/latest/restapi#sql-fields-query-execute
+ */
+export function convertResult(
+  fieldsMetadata: any[],
+  items: any[][],
+  options: ConversionOptions
+): { fields: ConvertedField[]; rows: any[][] } {
+  const fields: ConvertedField[] = [];
+  const getters: Array<(row: any[], index: number) => any> = [];
+  /*
+   * Flattened fields must not collide with the columns,
+   * e.g. a column alias `"ADDRESS.CITY"`, or each other
+   */
+  const used = new Set<string>(fieldsMetadata.map((field) => String(field.fieldName)));
+
+  fieldsMetadata.forEach((field, column) => {
+    const name = String(field.fieldName);
+    const javaType = String(field.fieldTypeName || '');
+    /*
+     * The time column of a time series is always
+     * interpreted as time, e.g. epoch milliseconds
+     * provided as `java.lang.Long`
+     */
+    const type = name === options.timeField ? FieldType.time : toFieldType(javaType, options.overrides);
+    if (type !== undefined) {
+      fields.push({ name, type });
+      getters.push((row) => convertValue(row[column], type, javaType, options.timeZone));
+      return;
+    }
+
+    const values = items.map((row) => row[column]);
+    if (!values.some((value) => isObjectValue(value))) {
+      /*
+       * Unknown types with scalar values, e.g. enums
+       * serialized by name, are inferred from the values
+       */
+      const converted = values.map((value) => (isEnumValue(value) ? value.name || value.ordinal : value));
+      const inferred = inferFieldType(converted);
+
+      fields.push({ name, type: inferred });
+      getters.push((_row, index) => convertValue(converted[index], inferred, javaType, options.timeZone));
+      return;
+    }
+    /*
+     * Nested objects are flattened; the fields are collected
+     * from all rows, as the fields of BinaryObjects may differ
+     */
+    const flattened = values.map((value) => (isObjectValue(value) ? flattenObject(value, name) : {}));
+    const names = new Set<string>();
+    flattened.forEach((object) => {
+      Object.keys(object).forEach((n) => {
+        names.add(n);
+      });
+    });
+
+    names.forEach((n) => {
+      const nested = flattened.map((object) => (isEnumValue(object[n]) ? object[n].name : object[n]));
+      const inferred = Array.isArray(nested.find((v) => v !== undefined && v !== null))
+        ? FieldType.string
+        : inferFieldType(nested);
+
+      const unique = uniqueName(n, (u) => used.has(u));
+      used.add(unique);
+
+      fields.push({ name: unique, type: inferred });
+      getters.push((_row, index) => convertValue(nested[index], inferred, '', options.timeZone));
+    });
+  });
+
+  const rows = items.map((row, index) => getters.map((get) => get(row, index)));
+  return { fields, rows };
+}
@@ -0,0 +1,140 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { FieldType, MutableDataFrame } from '@grafana/data';
+
+/**
+ * A key-value entry of an Apache Ignite cache
+ */
+export interface CacheEntry {
+  key: any;
+  value: any;
+}
+/**
+ * This method makes a name unique with respect to the
+ * names that are already used, by appending a number.
+ *
+ * Example: address.city -> address.city (2)
+ */
+export function uniqueName(name: string, isUsed: (name: string) => boolean): string {
+  let unique = name;
+  for (let index = 2; isUsed(unique); index++) {
+    unique = `${name} (${index})`;
+  }
+  return unique;
+}
+/**
+ * This method flattens a nested object, e.g. the JSON
+ * representation of a BinaryObject, into a single level
+ * object with dotted names; a dotted name that collides
+ * with a flattened one is made unique.
+ *
+ * Example: {"address": {"city": "Berlin"}} -> {"address.city": "Berlin"}
+ */
+export function flattenObject(value: any, prefix = '', flattened: Record<string, any> = {}): Record<string, any> {
+  Object.keys(value).forEach((name) => {
+    const path = prefix === '' ? name : `${prefix}.${name}`;
+
+    const v = value[name];
+    if (v !== null && typeof v === 'object' && !Array.isArray(v)) {
+      flattenObject(v, path, flattened);
+    } else {
+      flattened[uniqueName(path, (n) => Object.prototype.hasOwnProperty.call(flattened, n))] = v;
+    }
+  });
+
+  return flattened;
+}
+/**
+ * This method determines the field type of a column
+ * from its values; columns with mixed values are
+ * interpreted as `string`.
+ */
+export function inferFieldType(values: any[]): FieldType {
+  const types = new Set(
+    values
+      .filter((v) => v !== undefined && v !== null)
+      .map((v) => {
+        switch (typeof v) {
+          case 'number':
+            return FieldType.number;
+          case 'boolean':
+            return FieldType.boolean;
+          default:
+            return FieldType.string;
+        }
+      })
+  );
+
+  return types.size === 1 ? Array.from(types)[0] : FieldType.string;
+}
+/**
+ * A helper method to render a value that cannot be
+ * mapped onto a dataframe field, e.g. an array
+ */
+function toValue(value: any): any {
+  return Array.isArray(value) ? JSON.stringify(value) : value;
+}
+/**
+ * This method transforms cache entries into a table frame:
+ * the key is provided as `key` column (or flattened, if it
+ * is a composite key), and the value as `value` column or
+ * flattened into dotted columns.
+ */
+export function toEntriesFrame(refId: string, entries: CacheEntry[]): MutableDataFrame {
+  const rows = entries.map((entry) => {
+    const key =
+      entry.key !== null && typeof entry.key === 'object' ? flattenObject(entry.key, 'key') : { key: entry.key };
+    const value =
+      entry.value !== null && typeof entry.value === 'object' && !Array.isArray(entry.value)
+        ? flattenObject(entry.value)
+        : { value: entry.value };
+
+    return { ...value, ...key };
+  });
+  /*
+   * The columns are collected from all entries, as the
+   * fields of BinaryObjects may differ from entry to entry;
+   * key columns are placed first.
+   */
+  const names: string[] = [];
+  rows.forEach((row) => {
+    Object.keys(row).forEach((name) => {
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+    });
+  });
+  const isKey = (name: string) => name === 'key' || name.startsWith('key.');
+  names.sort((a, b) => Number(!isKey(a)) - Number(!isKey(b)));
+
+  const frame = new MutableDataFrame({
+    refId,
+    fields: names.map((name) => {
+      return {
+        name,
+        type: inferFieldType(rows.map((row) => row[name])),
+      };
+    }),
+  });
+  rows.forEach((row) => {
+    frame.appendRow(names.map((name) => toValue(row[name])));
+  });
+
+  return frame;
+}
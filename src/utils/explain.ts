@@ -0,0 +1,147 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { FieldType, MutableDataFrame } from '@grafana/data';
+
+/**
+ * A step of an execution plan: distributed queries
+ * are split into one or more map queries, executed
+ * on the data nodes, and a reduce query, executed
+ * on the node that received the query.
+ */
+export interface PlanStep {
+  /**
+   * Phase, i.e. `map`, `reduce` or `local`
+   *
+   * @type {string}
+   */
+  phase: string;
+  /**
+   * The plan of the (rewritten) query
+   *
+   * @type {string}
+   */
+  plan: string;
+  /**
+   * The indexes used by the query
+   *
+   * @type {string[]}
+   */
+  indexes: string[];
+  /**
+   * The tables that are scanned without index
+   *
+   * @type {string[]}
+   */
+  scans: string[];
+}
+/**
+ * This method wraps an SQL query in `EXPLAIN`;
+ * a trailing semicolon is removed.
+ */
+export function toExplainQuery(sql: string): string {
+  return 'EXPLAIN ' + sql.trim().replace(/;+$/, '');
+}
+/**
+ * This method parses the result of an `EXPLAIN` query:
+ * each row describes the plan of a map query, and the
+ * last row the reduce query of a distributed query.
+ *
+ * The index usage is taken from the comments of the
+ * H2 plans, e.g.
+ *
+ * FROM PUBLIC.PERSON __Z0 /* PUBLIC.PERSON_NAME_IDX: NAME = 'John' *\/
+ * FROM PUBLIC.PERSON __Z0 /* PUBLIC.PERSON.__SCAN_ *\/
+ */
+export function parsePlan(items: any[][]): PlanStep[] {
+  const plans = items.map((row) => (row[0] === null || row[0] === undefined ? '' : String(row[0])));
+
+  return plans.map((plan, index) => {
+    const indexes: string[] = [];
+    const scans: string[] = [];
+
+    const comment = /\/\*\s*([\w"]+(?:\.[\w"]+)+)\s*(?::[^*]*)?\*\//g;
+    let match = comment.exec(plan);
+    while (match !== null) {
+      const name = match[1].replace(/"/g, '');
+      if (name.endsWith('.__SCAN_')) {
+        const table = name.substring(0, name.length - '.__SCAN_'.length);
+        if (!scans.includes(table)) {
+          scans.push(table);
+        }
+      } else if (!name.endsWith('.merge_scan') && !indexes.includes(name)) {
+        /*
+         * `merge_scan` refers to the merged results
+         * of the map queries, rather than an index
+         */
+        indexes.push(name);
+      }
+      match = comment.exec(plan);
+    }
+
+    let phase = 'local';
+    if (plans.length > 1) {
+      phase = index < plans.length - 1 ? 'map' : 'reduce';
+    }
+    return { phase, plan, indexes, scans };
+  });
+}
+/**
+ * This method renders the steps of an execution
+ * plan as readable text, e.g. for the query editor
+ */
+export function formatPlan(steps: PlanStep[]): string {
+  return steps
+    .map((step, index) => {
+      const lines = [`-- ${step.phase.toUpperCase()} (step ${index + 1})`, step.plan];
+      if (step.indexes.length > 0) {
+        lines.push(`-- Indexes: ${step.indexes.join(', ')}`);
+      }
+      if (step.scans.length > 0) {
+        lines.push(`-- Full scans: ${step.scans.join(', ')}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+/**
+ * This method transforms the steps of an execution
+ * plan into a table frame with one row per step.
+ */
+export function toPlanFrame(refId: string, steps: PlanStep[], sql: string): MutableDataFrame {
+  const frame = new MutableDataFrame({
+    refId,
+    name: 'Execution plan',
+    fields: [
+      { name: 'step', type: FieldType.number },
+      { name: 'phase', type: FieldType.string },
+      { name: 'plan', type: FieldType.string },
+      { name: 'indexes', type: FieldType.string },
+      { name: 'scans', type: FieldType.string },
+    ],
+    meta: {
+      preferredVisualisationType: 'table',
+      executedQueryString: sql,
+    },
+  });
+  steps.forEach((step, index) => {
+    frame.appendRow([index + 1, step.phase, step.plan, step.indexes.join(', '), step.scans.join(', ')]);
+  });
+
+  return frame;
+}
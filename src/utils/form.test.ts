@@ -0,0 +1,148 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { DataSourceInstanceSettings } from '@grafana/data';
+import { DataSource } from '../data-source';
+import { FormatTypeValue, IgniteDataSourceOptions } from '../types';
+import { encodeFormValue, toFormBody } from './form';
+
+jest.mock('@grafana/runtime', () => ({
+  getBackendSrv: jest.fn(),
+  getTemplateSrv: jest.fn(),
+}));
+
+/**
+ * Decodes a form-encoded body, as the Apache Ignite
+ * REST server does, into its parameters
+ */
+const decode = (body: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  body.split('&').forEach((pair) => {
+    const [name, value] = pair.split('=').map((part) => decodeURIComponent(part.replace(/\+/g, ' ')));
+    params[name] = value;
+  });
+  return params;
+};
+
+const createDataSource = (jsonData: Partial<IgniteDataSourceOptions> = {}) =>
+  new DataSource(({
+    id: 1,
+    name: 'Ignite',
+    jsonData,
+  } as unknown) as DataSourceInstanceSettings<IgniteDataSourceOptions>);
+
+describe('encodeFormValue', () => {
+  it('encodes spaces as +', () => {
+    expect(encodeFormValue('SELECT * FROM Person')).toBe('SELECT+*+FROM+Person');
+  });
+
+  it('encodes reserved characters', () => {
+    expect(encodeFormValue("a+b&c=d'e")).toBe("a%2Bb%26c%3Dd'e");
+  });
+
+  it('encodes line breaks', () => {
+    expect(encodeFormValue('SELECT *\r\nFROM Person')).toBe('SELECT+*%0D%0AFROM+Person');
+  });
+
+  it('encodes non-ASCII characters as UTF-8', () => {
+    expect(encodeFormValue('Müller 東京')).toBe('M%C3%BCller+%E6%9D%B1%E4%BA%AC');
+  });
+});
+
+describe('toFormBody', () => {
+  it('joins the encoded parameters', () => {
+    expect(toFormBody({ cacheName: 'Person', pageSize: 100, distributedJoins: true })).toBe(
+      'cacheName=Person&pageSize=100&distributedJoins=true'
+    );
+  });
+
+  it('omits undefined parameters', () => {
+    expect(toFormBody({ cacheName: 'Person', distributedJoins: undefined, qry: 'a = b' })).toBe(
+      'cacheName=Person&qry=a+%3D+b'
+    );
+  });
+});
+
+describe('DataSource._queryBody', () => {
+  it('sends multi-line queries unchanged', () => {
+    const sql = "SELECT name,\n       age\n  FROM Person\n -- adults\n WHERE age >= 18 AND name <> 'A&B'";
+    const params = decode(createDataSource()._queryBody('Person', sql));
+
+    expect(params).toEqual({ cacheName: 'Person', pageSize: '1024', qry: sql });
+  });
+
+  it('sends unicode literals and arguments unchanged', () => {
+    const sql = "SELECT * FROM Person WHERE city = '東京' AND name = ?";
+    const params = decode(createDataSource()._queryBody('Person', sql, ['Jürgen + Söhne']));
+
+    expect(params.qry).toBe(sql);
+    expect(params.arg1).toBe('Jürgen + Söhne');
+  });
+
+  it('sends long IN lists, which exceed the maximum URL length', () => {
+    const ids = Array.from({ length: 2000 }, (_v, index) => `'id-${index}'`);
+    const sql = `SELECT * FROM Person WHERE id IN (${ids.join(', ')})`;
+    const body = createDataSource()._queryBody('Person', sql);
+
+    expect(body.length).toBeGreaterThan(8192);
+    expect(decode(body).qry).toBe(sql);
+  });
+
+  it('provides the arguments in the order of the placeholders', () => {
+    const params = decode(createDataSource()._queryBody('Person', 'SELECT ? , ?', ['1', 'a=b&c']));
+
+    expect(params.arg1).toBe('1');
+    expect(params.arg2).toBe('a=b&c');
+  });
+
+  it('sends the execution options', () => {
+    const params = decode(
+      createDataSource()._queryBody('Person', 'SELECT 1', [], {
+        schema: 'Sales',
+        distributedJoins: true,
+        enforceJoinOrder: true,
+        replicatedOnly: false,
+        lazy: true,
+        queryTimeout: 30,
+        pageSize: 10,
+      })
+    );
+
+    expect(params).toEqual({
+      cacheName: 'Person',
+      pageSize: '10',
+      qry: 'SELECT 1',
+      schemaName: 'Sales',
+      distributedJoins: 'true',
+      enforceJoinOrder: 'true',
+      replicatedOnly: 'false',
+      lazy: 'true',
+      timeout: '30000',
+    });
+  });
+
+  it('sends the data source defaults of options the query does not specify', () => {
+    const ds = createDataSource({ schema: 'Sales', lazy: true, queryTimeout: 10 });
+    const options = ds.getQueryOptions({ refId: 'A', format: FormatTypeValue.TABLE, lazy: false, queryTimeout: 5 });
+    const params = decode(ds._queryBody('Person', 'SELECT 1', [], options));
+
+    expect(params.schemaName).toBe('Sales');
+    expect(params.lazy).toBe('false');
+    expect(params.timeout).toBe('5000');
+  });
+});
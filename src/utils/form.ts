@@ -0,0 +1,49 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+
+/**
+ * The content type of form-encoded request bodies
+ */
+export const FORM_CONTENT_TYPE = 'application/x-www-form-urlencoded; charset=UTF-8';
+/**
+ * This method encodes a name or value of a form-encoded
+ * request body: all reserved characters, e.g. `+`, `&`
+ * and `=`, as well as line breaks and non-ASCII characters
+ * are percent-encoded (UTF-8), and every space is encoded
+ * as `+`.
+ */
+export function encodeFormValue(value: string): string {
+  return encodeURIComponent(value).replace(/%20/g, '+');
+}
+/**
+ * This method builds a form-encoded request body from the
+ * provided parameters; undefined parameters are omitted.
+ *
+ * Example:
+ *
+ * { cacheName: 'Person', qry: "SELECT * FROM Person WHERE name = 'A&B'" }
+ *
+ * cacheName=Person&qry=SELECT+*+FROM+Person+WHERE+name+%3D+'A%26B'
+ */
+export function toFormBody(params: Record<string, string | number | boolean | undefined>): string {
+  return Object.keys(params)
+    .filter((name) => params[name] !== undefined)
+    .map((name) => `${encodeFormValue(name)}=${encodeFormValue(String(params[name]))}`)
+    .join('&');
+}
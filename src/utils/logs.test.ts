@@ -0,0 +1,170 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { FieldType, MutableDataFrame } from '@grafana/data';
+import { FormatTypeValue, IgniteLogCursor } from '../types';
+import { ConvertedField } from './conversion';
+import { LogContext, toLineKey, toLogCursor, toLogFrames, toPageQuery, toPageRows } from './logs';
+
+const createFrame = (refId: string, times: number[], timeType = 'java.lang.Long') =>
+  new MutableDataFrame({
+    refId,
+    fields: [
+      { name: 'TS', type: FieldType.time, values: times },
+      { name: 'MESSAGE', type: FieldType.string, values: times.map((time) => `line ${time}`) },
+    ],
+    meta: { custom: { logContext: { target: { refId }, timeColumn: 'TS', timeType } } },
+  });
+
+const fields: ConvertedField[] = [
+  { name: 'TS', type: FieldType.time },
+  { name: 'MESSAGE', type: FieldType.string },
+  { name: 'HOST', type: FieldType.string },
+];
+const columns = { time: 0, message: 1, level: -1, labels: [2] };
+const context: LogContext = {
+  target: { refId: 'A', format: FormatTypeValue.LOGS },
+  timeColumn: 'TS',
+  timeType: 'java.lang.Long',
+};
+
+describe('toPageQuery', () => {
+  it('requests the latest log lines', () => {
+    expect(toPageQuery('SELECT ts, message FROM Log', 'ts')).toBe(
+      'SELECT * FROM (SELECT ts, message FROM Log) ORDER BY ts DESC LIMIT 1000'
+    );
+  });
+
+  it('requests the log lines up to the cursor, including the shown ones', () => {
+    const cursor = { time: 1614600000000, timeType: 'java.lang.Long', lines: ['a', 'b'] };
+    expect(toPageQuery('SELECT ts, message FROM Log', 'ts', 50, cursor)).toBe(
+      'SELECT * FROM (SELECT ts, message FROM Log) WHERE ts <= 1614600000000 ORDER BY ts DESC LIMIT 52'
+    );
+  });
+
+  it('compares timestamp columns with a timestamp literal', () => {
+    const cursor = { time: 1614600000000, timeType: 'java.sql.Timestamp', lines: [] };
+    expect(toPageQuery('SELECT ts, message FROM Log', 'ts', 50, cursor, 'utc')).toBe(
+      "SELECT * FROM (SELECT ts, message FROM Log) WHERE ts <= TIMESTAMP '2021-03-01 12:00:00.000' ORDER BY ts DESC LIMIT 50"
+    );
+  });
+});
+
+describe('toLogCursor', () => {
+  it('provides the oldest log line of all frames of the query', () => {
+    const frames = [
+      createFrame('A', [1614600003000, 1614600002000]),
+      createFrame('A', [1614600001000], 'java.sql.Timestamp'),
+      createFrame('B', [1614600000000]),
+    ];
+
+    expect(toLogCursor(frames, 'A')).toEqual({
+      time: 1614600001000,
+      timeType: 'java.sql.Timestamp',
+      lines: [toLineKey(1614600001000, 'line 1614600001000', {})],
+    });
+  });
+
+  it('retains the shown log lines of a previous cursor with the same time', () => {
+    const previous = { time: 1614600001000, timeType: 'java.lang.Long', lines: ['shown'] };
+    const cursor = toLogCursor([createFrame('A', [1614600001000])], 'A', previous);
+
+    expect(cursor!.lines).toEqual(['shown', toLineKey(1614600001000, 'line 1614600001000', {})]);
+    expect(toLogCursor([createFrame('A', [1614600000000])], 'A', previous)!.lines).toHaveLength(1);
+  });
+
+  it('provides no cursor without log lines', () => {
+    expect(toLogCursor([createFrame('A', [])], 'A')).toBeUndefined();
+    expect(toLogCursor([], 'A')).toBeUndefined();
+  });
+});
+
+describe('toPageRows', () => {
+  it('removes the shown log lines with the time of the cursor', () => {
+    const rows = [
+      [3, 'c', 'h1'],
+      [3, 'c', 'h1'],
+      [3, 'd', 'h2'],
+      [2, 'c', 'h1'],
+    ];
+    const cursor = { time: 3, timeType: 'java.lang.Long', lines: [toLineKey(3, 'c', { HOST: 'h1' })] };
+
+    expect(toPageRows(fields, rows, columns, 10, cursor)).toEqual([
+      [3, 'c', 'h1'],
+      [3, 'd', 'h2'],
+      [2, 'c', 'h1'],
+    ]);
+  });
+
+  it('restricts the log lines to the limit', () => {
+    expect(
+      toPageRows(
+        fields,
+        [
+          [3, 'a', 'h1'],
+          [2, 'b', 'h1'],
+          [1, 'c', 'h1'],
+        ],
+        columns,
+        2
+      )
+    ).toHaveLength(2);
+  });
+
+  it('pages through log lines that share their time at a page boundary', () => {
+    const lines: any[][] = [
+      [5, 'a', 'h1'],
+      [4, 'b', 'h1'],
+      [3, 'c', 'h1'],
+      [3, 'd', 'h2'],
+      [3, 'c', 'h1'],
+      [3, 'g', 'h1'],
+      [2, 'e', 'h1'],
+      [1, 'f', 'h1'],
+    ];
+    /*
+     * Executes a page query; the order of log lines with
+     * the same time differs between the requests
+     */
+    let requests = 0;
+    const execute = (limit: number, cursor?: IgniteLogCursor) => {
+      const ties = requests++ % 2 === 0 ? 1 : -1;
+      return lines
+        .map((line, index) => ({ line, index }))
+        .filter(({ line }) => cursor === undefined || line[0] <= cursor.time)
+        .sort((a, b) => b.line[0] - a.line[0] || (a.index - b.index) * ties)
+        .map(({ line }) => line)
+        .slice(0, limit + (cursor ? cursor.lines.length : 0));
+    };
+
+    const shown: any[][] = [];
+    let cursor: IgniteLogCursor | undefined;
+    for (let page = 0; page < 10; page++) {
+      const rows = toPageRows(fields, execute(3, cursor), columns, 3, cursor);
+      shown.push(...rows);
+      if (rows.length < 3) {
+        break;
+      }
+      cursor = toLogCursor(toLogFrames('A', fields, rows, columns, context), 'A', cursor);
+    }
+
+    const sort = (rows: any[][]) => rows.map((row) => JSON.stringify(row)).sort();
+    expect(shown).toHaveLength(lines.length);
+    expect(sort(shown)).toEqual(sort(lines));
+  });
+});
@@ -0,0 +1,380 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { DataFrame, dateTime, FieldType, getLogLevelFromKey, Labels, LogLevel, MutableDataFrame } from '@grafana/data';
+import { IgniteLogCursor, IgniteQuery } from '../types';
+import { ConvertedField } from './conversion';
+import { toTimestampLiteral } from './macros';
+
+/**
+ * The number of log lines that are loaded
+ * per context request, if not specified
+ */
+export const DEFAULT_CONTEXT_LIMIT = 10;
+/**
+ * The number of log lines that are loaded
+ * per page, if not specified
+ */
+export const DEFAULT_LOG_LIMIT = 1000;
+/**
+ * The log levels of `java.util.logging` that
+ * are not known to Grafana
+ */
+const JAVA_LOG_LEVELS: Record<string, LogLevel> = {
+  severe: LogLevel.critical,
+  config: LogLevel.info,
+  fine: LogLevel.debug,
+  finer: LogLevel.trace,
+  finest: LogLevel.trace,
+};
+/**
+ * The columns of a logs query result
+ */
+export interface LogColumns {
+  /**
+   * Time column index
+   *
+   * @type {number}
+   */
+  time: number;
+  /**
+   * Message column index
+   *
+   * @type {number}
+   */
+  message: number;
+  /**
+   * Level column index, or -1
+   *
+   * @type {number}
+   */
+  level: number;
+  /**
+   * Label column indices
+   *
+   * @type {number[]}
+   */
+  labels: number[];
+}
+/**
+ * The information that is required to load the
+ * context of a log line; it is provided with the
+ * custom meta of the logs frames.
+ */
+export interface LogContext {
+  /**
+   * Query with interpolated variables,
+   * but unexpanded macros
+   *
+   * @type {IgniteQuery}
+   */
+  target: IgniteQuery;
+  /**
+   * Time column, as provided with the metadata
+   *
+   * @type {string}
+   */
+  timeColumn: string;
+  /**
+   * Java type of the time column
+   *
+   * @type {string}
+   */
+  timeType: string;
+}
+/**
+ * The options of a context request, as
+ * provided by Grafana's logs panel
+ */
+export interface LogContextOptions {
+  /**
+   * Number of log lines
+   *
+   * @type {number}
+   */
+  limit?: number;
+  /**
+   * Direction
+   *
+   * @type {string}
+   */
+  direction?: 'BACKWARD' | 'FORWARD';
+}
+/**
+ * This method maps the value of a level column to one
+ * of Grafana's log levels, which determine the color
+ * of a log line; e.g. `WARN`, `SEVERE` or `FINE`.
+ */
+export function toLogLevel(value: any): LogLevel {
+  if (value === undefined || value === null) {
+    return LogLevel.unknown;
+  }
+
+  const key = String(value).trim().toLowerCase();
+  return JAVA_LOG_LEVELS[key] || getLogLevelFromKey(key);
+}
+/**
+ * This method determines the default message column of
+ * a logs query, i.e. the first text column that is not
+ * used otherwise, e.g. as time or level column.
+ */
+export function findMessageColumn(fields: ConvertedField[], excluded: number[]): number {
+  return fields.findIndex((field, index) => field.type === FieldType.string && !excluded.includes(index));
+}
+/*
+ * A helper method to provide the label columns
+ * of a result row as labels of its log line
+ */
+function toLabels(fields: ConvertedField[], row: any[], columns: LogColumns): Labels {
+  const labels: Labels = {};
+  columns.labels.forEach((index) => {
+    labels[fields[index].name] = String(row[index]);
+  });
+  return labels;
+}
+/**
+ * This method builds the key of a log line, that
+ * identifies log lines with the same time across
+ * pages of log lines.
+ */
+export function toLineKey(time: any, message: any, labels: Labels): string {
+  return JSON.stringify([time, message === null || message === undefined ? '' : String(message), labels]);
+}
+/**
+ * This method transforms the converted fields and rows of a
+ * logs query into frames that Grafana renders as log lines:
+ * a time field, the message as first text field, and a
+ * `level` field. The label columns specify the labels of
+ * the log lines; a frame is created per label combination.
+ */
+export function toLogFrames(
+  refId: string,
+  fields: ConvertedField[],
+  rows: any[][],
+  columns: LogColumns,
+  context: LogContext
+): MutableDataFrame[] {
+  const series = new Map<string, { labels: Labels; rows: any[][] }>();
+  rows.forEach((row) => {
+    const labels = toLabels(fields, row, columns);
+
+    const key = JSON.stringify(labels);
+    let entry = series.get(key);
+    if (entry === undefined) {
+      entry = { labels, rows: [] };
+      series.set(key, entry);
+    }
+
+    const message = row[columns.message] === null ? '' : String(row[columns.message]);
+    const line = [row[columns.time], message];
+    if (columns.level !== -1) {
+      line.push(toLogLevel(row[columns.level]));
+    }
+    entry.rows.push(line);
+  });
+
+  return Array.from(series.values()).map((entry) => {
+    const frame = new MutableDataFrame({
+      refId,
+      name: Object.values(entry.labels).join(' '),
+      fields: [
+        { name: fields[columns.time].name, type: FieldType.time },
+        { name: fields[columns.message].name, type: FieldType.string, labels: entry.labels },
+        ...(columns.level !== -1 ? [{ name: 'level', type: FieldType.string }] : []),
+      ],
+      meta: {
+        preferredVisualisationType: 'logs',
+        custom: { logContext: context },
+      },
+    });
+    entry.rows.forEach((row) => {
+      frame.appendRow(row);
+    });
+
+    return frame;
+  });
+}
+/**
+ * This method renders a time as SQL literal that can be
+ * compared with the time column: timestamp columns are
+ * compared with a timestamp literal, all others with
+ * epoch milliseconds.
+ */
+export function toTimeLiteral(time: number, timeType: string, timeZone?: string): string {
+  return timeType === 'java.sql.Timestamp' || timeType === 'java.sql.Date' || timeType === 'java.util.Date'
+    ? toTimestampLiteral(dateTime(time), timeZone)
+    : String(time);
+}
+/**
+ * This method restricts an SQL query to a page of log lines,
+ * i.e. the latest log lines up to the cursor, if specified,
+ * or the latest log lines of the query otherwise. Log lines
+ * with the time of the cursor that were already shown are
+ * requested once more, and removed by `toPageRows`.
+ *
+ * Example:
+ *
+ * SELECT * FROM (SELECT * FROM Log) WHERE ts <= 1614600000000 ORDER BY ts DESC LIMIT 1002
+ */
+export function toPageQuery(
+  sql: string,
+  timeColumn: string,
+  limit?: number,
+  cursor?: IgniteLogCursor,
+  timeZone?: string
+): string {
+  if (cursor === undefined) {
+    return `SELECT * FROM (${sql}) ORDER BY ${timeColumn} DESC LIMIT ${limit || DEFAULT_LOG_LIMIT}`;
+  }
+
+  const literal = toTimeLiteral(cursor.time, cursor.timeType, timeZone);
+  const rows = (limit || DEFAULT_LOG_LIMIT) + cursor.lines.length;
+  return `SELECT * FROM (${sql}) WHERE ${timeColumn} <= ${literal} ORDER BY ${timeColumn} DESC LIMIT ${rows}`;
+}
+/**
+ * This method removes the log lines of a page that were
+ * already shown, i.e. the ones with the time of the cursor
+ * and the key of a shown log line, and restricts the page
+ * to the provided number of log lines.
+ */
+export function toPageRows(
+  fields: ConvertedField[],
+  rows: any[][],
+  columns: LogColumns,
+  limit?: number,
+  cursor?: IgniteLogCursor
+): any[][] {
+  const pageSize = limit || DEFAULT_LOG_LIMIT;
+  if (cursor === undefined) {
+    return rows.slice(0, pageSize);
+  }
+  /*
+   * Log lines with the same content are counted,
+   * as only the shown ones are removed
+   */
+  const shown = new Map<string, number>();
+  cursor.lines.forEach((key) => {
+    shown.set(key, (shown.get(key) || 0) + 1);
+  });
+
+  return rows
+    .filter((row) => {
+      if (row[columns.time] !== cursor.time) {
+        return true;
+      }
+      const key = toLineKey(row[columns.time], row[columns.message], toLabels(fields, row, columns));
+      const count = shown.get(key) || 0;
+      if (count === 0) {
+        return true;
+      }
+      shown.set(key, count - 1);
+      return false;
+    })
+    .slice(0, pageSize);
+}
+/**
+ * This method determines the cursor of the page before the
+ * provided logs frames of a query, i.e. the time of their
+ * oldest log line and the keys of the log lines with this
+ * time. The keys of the previous cursor are retained, if
+ * its time is the same.
+ */
+export function toLogCursor(
+  frames: DataFrame[],
+  refId: string,
+  previous?: IgniteLogCursor
+): IgniteLogCursor | undefined {
+  const logFrames = frames.filter(
+    (frame) => frame.refId === refId && frame.meta && frame.meta.custom && frame.meta.custom.logContext
+  );
+
+  let cursor: IgniteLogCursor | undefined;
+  logFrames.forEach((frame) => {
+    const context: LogContext = frame.meta!.custom!.logContext;
+    for (let i = 0; i < frame.length; i++) {
+      const time = frame.fields[0].values.get(i);
+      if (typeof time === 'number' && (cursor === undefined || time < cursor.time)) {
+        cursor = { time, timeType: context.timeType, lines: [] };
+      }
+    }
+  });
+  if (cursor === undefined) {
+    return undefined;
+  }
+
+  const oldest = cursor;
+  if (previous !== undefined && previous.time === oldest.time) {
+    oldest.lines.push(...previous.lines);
+  }
+  logFrames.forEach((frame) => {
+    const message = frame.fields[1];
+    for (let i = 0; i < frame.length; i++) {
+      if (frame.fields[0].values.get(i) === oldest.time) {
+        oldest.lines.push(toLineKey(oldest.time, message.values.get(i), message.labels || {}));
+      }
+    }
+  });
+
+  return oldest;
+}
+/**
+ * This method restricts an SQL query to the log lines before
+ * or after the provided time, ordered by their distance, i.e.
+ * a page of log lines adjacent to a certain log line.
+ */
+export function toContextQuery(
+  context: LogContext,
+  sql: string,
+  time: number,
+  options: LogContextOptions,
+  timeZone?: string
+): string {
+  const literal = toTimeLiteral(time, context.timeType, timeZone);
+
+  const limit = options.limit || DEFAULT_CONTEXT_LIMIT;
+  const column = context.timeColumn;
+  return options.direction === 'FORWARD'
+    ? `SELECT * FROM (${sql}) WHERE ${column} > ${literal} ORDER BY ${column} ASC LIMIT ${limit}`
+    : `SELECT * FROM (${sql}) WHERE ${column} < ${literal} ORDER BY ${column} DESC LIMIT ${limit}`;
+}
+/**
+ * This method transforms logs frames into the frames that
+ * Grafana's log context expects, i.e. with `ts` and `line`
+ * fields, in the order of the context query.
+ */
+export function toContextFrames(frames: MutableDataFrame[], options: LogContextOptions): MutableDataFrame[] {
+  const lines: Array<[number, string]> = [];
+  frames.forEach((frame) => {
+    for (let i = 0; i < frame.length; i++) {
+      lines.push([frame.fields[0].values.get(i), frame.fields[1].values.get(i)]);
+    }
+  });
+  lines.sort((a, b) => (options.direction === 'FORWARD' ? a[0] - b[0] : b[0] - a[0]));
+
+  const frame = new MutableDataFrame({
+    fields: [
+      { name: 'ts', type: FieldType.time },
+      { name: 'line', type: FieldType.string },
+    ],
+  });
+  lines.forEach((line) => {
+    frame.appendRow(line);
+  });
+
+  return [frame];
+}
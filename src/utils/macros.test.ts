@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { dateTime } from '@grafana/data';
+import { expandMacros, MacroContext } from './macros';
+
+/**
+ * 2021-03-01 12:00:00 - 13:00:00 UTC
+ */
+const from = dateTime(1614600000000);
+const to = dateTime(1614603600000);
+
+const context: MacroContext = {
+  range: { from, to, raw: { from, to } },
+  interval: '1m',
+  intervalMs: 60000,
+  timeZone: 'utc',
+};
+
+describe('expandMacros', () => {
+  it('expands $__timeFilter to a timestamp range', () => {
+    expect(expandMacros('SELECT * FROM Metric WHERE $__timeFilter( ts )', context)).toBe(
+      "SELECT * FROM Metric WHERE ts BETWEEN TIMESTAMP '2021-03-01 12:00:00.000' AND TIMESTAMP '2021-03-01 13:00:00.000'"
+    );
+  });
+
+  it('expands $__unixEpochFilter to an epoch seconds range', () => {
+    expect(expandMacros('SELECT * FROM Metric WHERE $__unixEpochFilter(ts)', context)).toBe(
+      'SELECT * FROM Metric WHERE ts >= 1614600000 AND ts <= 1614603600'
+    );
+  });
+
+  it('expands $__timeFrom to the start of the time range', () => {
+    expect(expandMacros('SELECT * FROM Metric WHERE ts > $__timeFrom()', context)).toBe(
+      "SELECT * FROM Metric WHERE ts > TIMESTAMP '2021-03-01 12:00:00.000'"
+    );
+  });
+
+  it('expands $__timeTo to the end of the time range', () => {
+    expect(expandMacros('SELECT * FROM Metric WHERE ts < $__timeTo()', context)).toBe(
+      "SELECT * FROM Metric WHERE ts < TIMESTAMP '2021-03-01 13:00:00.000'"
+    );
+  });
+
+  it('expands $__interval to the interval of the request', () => {
+    expect(expandMacros("SELECT '$__interval' AS bucket", context)).toBe("SELECT '1m' AS bucket");
+  });
+
+  it('expands $__interval_ms to the interval in milliseconds', () => {
+    expect(expandMacros('SELECT ts / $__interval_ms * $__interval_ms FROM Metric', context)).toBe(
+      'SELECT ts / 60000 * 60000 FROM Metric'
+    );
+  });
+});
@@ -0,0 +1,107 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { DateTime, TimeRange } from '@grafana/data';
+import { toServerTime } from './time';
+
+/**
+ * The time context that is used to expand
+ * the time range macros of an SQL query
+ */
+export interface MacroContext {
+  /**
+   * Time range of the request
+   *
+   * @type {TimeRange}
+   */
+  range: TimeRange;
+  /**
+   * Interval of the request, e.g. `1m`
+   *
+   * @type {string}
+   */
+  interval?: string;
+  /**
+   * Interval of the request in milliseconds
+   *
+   * @type {number}
+   */
+  intervalMs?: number;
+  /**
+   * Time zone of the Apache Ignite server
+   *
+   * @type {string}
+   */
+  timeZone?: string;
+}
+/**
+ * Apache Ignite's SQL engine accepts timestamp literals
+ * in the format `TIMESTAMP 'yyyy-MM-dd HH:mm:ss.SSS'`;
+ * the provided time is rendered in the server time zone.
+ *
+ * Example: TIMESTAMP '2021-03-01 12:00:00.000'
+ */
+export function toTimestampLiteral(time: DateTime, timeZone?: string): string {
+  return `TIMESTAMP '${toServerTime(time, timeZone)}'`;
+}
+/**
+ * Unix epoch in seconds
+ */
+function toUnixEpoch(time: DateTime): number {
+  return Math.floor(time.valueOf() / 1000);
+}
+/**
+ * This method rewrites Grafana's time range macros into
+ * SQL statements that are compliant with Apache Ignite:
+ *
+ * $__timeFilter(col)      col BETWEEN TIMESTAMP '...' AND TIMESTAMP '...'
+ * $__timeFrom()           TIMESTAMP '...'
+ * $__timeTo()             TIMESTAMP '...'
+ * $__unixEpochFilter(col) col >= 1614600000 AND col <= 1614603600
+ * $__interval_ms          60000
+ * $__interval             1m
+ */
+export function expandMacros(sql: string, context: MacroContext): string {
+  const { range, interval, intervalMs, timeZone } = context;
+
+  const from = toTimestampLiteral(range.from, timeZone);
+  const to = toTimestampLiteral(range.to, timeZone);
+
+  let expanded = sql
+    .replace(/\$__timeFilter\(([^)]*)\)/g, (_match, column: string) => {
+      return `${column.trim()} BETWEEN ${from} AND ${to}`;
+    })
+    .replace(/\$__unixEpochFilter\(([^)]*)\)/g, (_match, column: string) => {
+      const col = column.trim();
+      return `${col} >= ${toUnixEpoch(range.from)} AND ${col} <= ${toUnixEpoch(range.to)}`;
+    })
+    .replace(/\$__timeFrom\(\)/g, from)
+    .replace(/\$__timeTo\(\)/g, to);
+  /*
+   * `$__interval_ms` must be replaced before `$__interval`
+   * as the latter is a prefix of the former.
+   */
+  if (intervalMs !== undefined) {
+    expanded = expanded.replace(/\$__interval_ms\b/g, String(intervalMs));
+  }
+  if (interval !== undefined) {
+    expanded = expanded.replace(/\$__interval\b/g, interval);
+  }
+
+  return expanded;
+}
@@ -0,0 +1,108 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { FieldType, Labels, MutableDataFrame } from '@grafana/data';
+import { NodeMetricValue } from '../types';
+
+/**
+ * The units of the node metrics provided by `cmd=top`;
+ * CPU loads are provided as fraction of 1.
+ */
+const NODE_METRIC_UNITS: Record<string, string> = {
+  [NodeMetricValue.HEAP_MEMORY_USED]: 'bytes',
+  [NodeMetricValue.HEAP_MEMORY_COMMITTED]: 'bytes',
+  [NodeMetricValue.HEAP_MEMORY_MAX]: 'bytes',
+  [NodeMetricValue.NON_HEAP_MEMORY_USED]: 'bytes',
+  [NodeMetricValue.CURRENT_CPU_LOAD]: 'percentunit',
+  [NodeMetricValue.AVERAGE_CPU_LOAD]: 'percentunit',
+  [NodeMetricValue.CURRENT_GC_CPU_LOAD]: 'percentunit',
+  [NodeMetricValue.UP_TIME]: 'ms',
+};
+/**
+ * This method transforms the nodes of the cluster topology
+ * into one frame per node: each frame holds the sample time
+ * and the selected metrics; the node id, consistent id and
+ * the selected node attributes are provided as labels.
+ *
+ * Example:
+ *
+ * {
+ * "nodeId": "3e8f6c0a-...",
+ * "consistentId": "127.0.0.1:47500",
+ * "tcpHostNames": ["localhost"],
+ * "metrics": {"heapMemoryUsed": 123456, "currentCpuLoad": 0.05, ...},
+ * "attributes": {"org.apache.ignite.build.ver": "2.9.1", ...}
+ * }
+ */
+export function toNodeFrames(
+  refId: string,
+  nodes: any[],
+  metrics: string[],
+  attributes: string[],
+  time: number
+): MutableDataFrame[] {
+  return nodes.map((node) => {
+    const labels: Labels = {
+      nodeId: String(node.nodeId),
+    };
+    if (node.consistentId !== undefined && node.consistentId !== null) {
+      labels.consistentId = String(node.consistentId);
+    }
+    if (Array.isArray(node.tcpHostNames) && node.tcpHostNames.length > 0) {
+      labels.host = node.tcpHostNames.join(',');
+    }
+
+    const nodeAttributes = node.attributes || {};
+    attributes.forEach((attribute) => {
+      if (nodeAttributes[attribute] !== undefined && nodeAttributes[attribute] !== null) {
+        labels[attribute] = String(nodeAttributes[attribute]);
+      }
+    });
+
+    const nodeMetrics = node.metrics || {};
+    const frame = new MutableDataFrame({
+      refId,
+      name: labels.consistentId || labels.nodeId,
+      fields: [
+        { name: 'time', type: FieldType.time },
+        ...metrics.map((metric) => {
+          return {
+            name: metric,
+            type: FieldType.number,
+            labels,
+            config: NODE_METRIC_UNITS[metric] ? { unit: NODE_METRIC_UNITS[metric] } : {},
+          };
+        }),
+      ],
+    });
+    frame.appendRow([time, ...metrics.map((metric) => toNumber(nodeMetrics[metric]))]);
+
+    return frame;
+  });
+}
+/**
+ * A helper method to convert a metric value
+ */
+function toNumber(value: any): number | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+}
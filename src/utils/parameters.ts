@@ -0,0 +1,141 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { dateTime, TimeRange } from '@grafana/data';
+import { IgniteQueryParameter, ParameterSourceValue, ParameterTypeValue } from '../types';
+import { toEpochMillis, toServerTime } from './time';
+
+/**
+ * This method counts the `?` placeholders of an SQL query;
+ * question marks in string literals, quoted identifiers and
+ * comments are ignored.
+ */
+export function countPlaceholders(sql: string): number {
+  let count = 0;
+  let i = 0;
+  while (i < sql.length) {
+    const c = sql[i];
+    if (c === "'" || c === '"') {
+      /*
+       * Quotes within literals and identifiers are escaped
+       * by doubling them, which is scanned as two adjacent
+       * literals
+       */
+      const end = sql.indexOf(c, i + 1);
+      if (end === -1) {
+        break;
+      }
+      i = end + 1;
+      continue;
+    }
+    if (c === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+    if (c === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+    if (c === '?') {
+      count++;
+    }
+    i++;
+  }
+
+  return count;
+}
+/**
+ * This method replaces the time range parameters by literal
+ * parameters with the start or end of the provided time range,
+ * as epoch milliseconds.
+ */
+export function resolveTimeParameters(
+  parameters: IgniteQueryParameter[] | undefined,
+  range: TimeRange
+): IgniteQueryParameter[] | undefined {
+  if (parameters === undefined) {
+    return undefined;
+  }
+
+  return parameters.map((parameter) => {
+    switch (parameter.source) {
+      case ParameterSourceValue.TIME_FROM:
+        return { ...parameter, source: ParameterSourceValue.LITERAL, value: String(range.from.valueOf()) };
+      case ParameterSourceValue.TIME_TO:
+        return { ...parameter, source: ParameterSourceValue.LITERAL, value: String(range.to.valueOf()) };
+      default:
+        return parameter;
+    }
+  });
+}
+/**
+ * This method converts the value of a parameter with respect
+ * to its type; timestamps, provided as epoch milliseconds or
+ * as SQL timestamp, are rendered in the server time zone.
+ */
+export function convertParameter(parameter: IgniteQueryParameter, position: number, timeZone?: string): string {
+  const value = (parameter.value || '').trim();
+  switch (parameter.type) {
+    case ParameterTypeValue.NUMBER: {
+      const number = Number(value);
+      if (value === '' || isNaN(number)) {
+        throw new Error(`The value '${value}' of parameter ${position} is not a number.`);
+      }
+      return String(number);
+    }
+    case ParameterTypeValue.TIMESTAMP: {
+      const time = toEpochMillis(value, timeZone);
+      if (time === null) {
+        throw new Error(`The value '${value}' of parameter ${position} is not a timestamp.`);
+      }
+      return toServerTime(dateTime(time), timeZone);
+    }
+    default:
+      return parameter.value || '';
+  }
+}
+/**
+ * This method binds the parameters of an SQL query to its
+ * `?` placeholders, and provides the converted values in
+ * the order of the placeholders, i.e. as `arg1..argN`.
+ *
+ * Example:
+ *
+ * SELECT * FROM Person WHERE name = ? AND updated > ?
+ *
+ * [ { source: variable, value: $name, type: string },
+ *   { source: timeFrom, type: timestamp } ]
+ *
+ * arg1=John&arg2=2021-03-01+12:00:00.000
+ */
+export function bindParameters(
+  sql: string,
+  parameters: IgniteQueryParameter[] | undefined,
+  timeZone?: string
+): string[] {
+  const list = parameters || [];
+
+  const placeholders = countPlaceholders(sql);
+  if (placeholders !== list.length) {
+    throw new Error(`The query contains ${placeholders} placeholder(s), but ${list.length} parameter(s) are defined.`);
+  }
+
+  return list.map((parameter, index) => convertParameter(parameter, index + 1, timeZone));
+}
@@ -0,0 +1,172 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { CircularDataFrame, FieldType, MutableDataFrame } from '@grafana/data';
+import { appendToStream, latestPosition, newerThan } from './streaming';
+
+const createFrame = (rows: Array<[number, number]>, labels: Record<string, string> = {}) => {
+  const frame = new MutableDataFrame({
+    refId: 'A',
+    fields: [
+      { name: 'time', type: FieldType.time },
+      { name: 'VALUE', type: FieldType.number, labels },
+    ],
+  });
+  rows.forEach((row) => frame.appendRow(row));
+  return frame;
+};
+
+const valuesOf = (frame: CircularDataFrame) => frame.fields.map((field) => field.values.toArray());
+
+describe('latestPosition', () => {
+  it('provides the latest time of numeric time columns', () => {
+    const items = [
+      [1614600001000, 'a'],
+      [1614600003000, 'b'],
+      [1614600002000, 'c'],
+    ];
+
+    expect(latestPosition(items, 0, 'java.lang.Long')).toEqual({ time: 1614600003000, literal: '1614600003000' });
+  });
+
+  it('renders timestamp columns as timestamp literal', () => {
+    const items = [['2021-03-01 12:00:00.000'], ['2021-03-01 12:00:05.000']];
+
+    expect(latestPosition(items, 0, 'java.sql.Timestamp', 'utc')).toEqual({
+      time: 1614600005000,
+      literal: "TIMESTAMP '2021-03-01 12:00:05.000'",
+    });
+  });
+
+  it('retains the previous position, if the result is not newer', () => {
+    const previous = { time: 1614600005000, literal: '1614600005000' };
+
+    expect(latestPosition([[1614600004000], [null]], 0, 'java.lang.Long', undefined, previous)).toBe(previous);
+    expect(latestPosition([], 0, 'java.lang.Long')).toBeUndefined();
+  });
+});
+
+describe('newerThan', () => {
+  it('requests the rows from the position on', () => {
+    expect(newerThan('SELECT ts, v FROM Metric', 'ts', { time: 1614600000000, literal: '1614600000000' })).toBe(
+      'SELECT * FROM (SELECT ts, v FROM Metric) WHERE ts >= 1614600000000'
+    );
+  });
+});
+
+describe('appendToStream', () => {
+  it('appends the rows of a series to its frame', () => {
+    const stream = new Map<string, CircularDataFrame>();
+    appendToStream(stream, [createFrame([[1, 10]], { host: 'a' }), createFrame([[1, 20]], { host: 'b' })], 10);
+    const frames = appendToStream(stream, [createFrame([[2, 11]], { host: 'a' })], 10);
+
+    expect(frames).toHaveLength(2);
+    expect(frames[0].refId).toBe('A');
+    expect(valuesOf(frames[0])).toEqual([
+      [1, 2],
+      [10, 11],
+    ]);
+    expect(valuesOf(frames[1])).toEqual([[1], [20]]);
+  });
+
+  it('retains the configured number of rows', () => {
+    const stream = new Map<string, CircularDataFrame>();
+    appendToStream(
+      stream,
+      [
+        createFrame([
+          [1, 10],
+          [2, 20],
+        ]),
+      ],
+      3
+    );
+    const frames = appendToStream(
+      stream,
+      [
+        createFrame([
+          [3, 30],
+          [4, 40],
+        ]),
+      ],
+      3
+    );
+
+    expect(valuesOf(frames[0])).toEqual([
+      [2, 3, 4],
+      [20, 30, 40],
+    ]);
+  });
+
+  it('skips the rows with the previous time that were already appended', () => {
+    const stream = new Map<string, CircularDataFrame>();
+    appendToStream(
+      stream,
+      [
+        createFrame([
+          [1, 10],
+          [2, 20],
+          [2, 21],
+        ]),
+      ],
+      10
+    );
+    /*
+     * A row with the previous time arrived after the last poll
+     */
+    const frames = appendToStream(
+      stream,
+      [
+        createFrame([
+          [2, 20],
+          [2, 21],
+          [2, 22],
+          [3, 30],
+        ]),
+      ],
+      10,
+      2
+    );
+
+    expect(valuesOf(frames[0])).toEqual([
+      [1, 2, 2, 2, 3],
+      [10, 20, 21, 22, 30],
+    ]);
+  });
+
+  it('appends duplicate rows with the previous time only once per appended row', () => {
+    const stream = new Map<string, CircularDataFrame>();
+    appendToStream(stream, [createFrame([[2, 20]])], 10);
+    const frames = appendToStream(
+      stream,
+      [
+        createFrame([
+          [2, 20],
+          [2, 20],
+        ]),
+      ],
+      10,
+      2
+    );
+
+    expect(valuesOf(frames[0])).toEqual([
+      [2, 2],
+      [20, 20],
+    ]);
+  });
+});
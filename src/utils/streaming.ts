@@ -0,0 +1,168 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { CircularDataFrame, dateTime, FieldType, MutableDataFrame } from '@grafana/data';
+import { toTimestampLiteral } from './macros';
+import { toEpochMillis } from './time';
+import { quoteLiteral } from './variables';
+
+/**
+ * The polling interval (in seconds) of streaming
+ * queries, if not configured otherwise
+ */
+export const DEFAULT_STREAM_INTERVAL = 5;
+/**
+ * The maximum number of rows retained per streamed
+ * series, if not configured otherwise
+ */
+export const DEFAULT_STREAM_CAPACITY = 1000;
+/**
+ * The latest value of the time column seen by a
+ * streaming query, as epoch milliseconds and as
+ * SQL literal of the column's type
+ */
+export interface StreamPosition {
+  /**
+   * Epoch milliseconds
+   *
+   * @type {number}
+   */
+  time: number;
+  /**
+   * SQL literal
+   *
+   * @type {string}
+   */
+  literal: string;
+}
+/**
+ * This method determines the latest value of the time column
+ * in a result; the SQL literal is rendered with respect to the
+ * Java type of the column.
+ */
+export function latestPosition(
+  items: any[][],
+  timeIndex: number,
+  fieldTypeName: string,
+  timeZone?: string,
+  previous?: StreamPosition
+): StreamPosition | undefined {
+  let latest = previous;
+  items.forEach((row) => {
+    const value = row[timeIndex];
+    const time = toEpochMillis(value, timeZone);
+    if (time === null || (latest !== undefined && time <= latest.time)) {
+      return;
+    }
+
+    let literal;
+    if (fieldTypeName === 'java.sql.Timestamp' || fieldTypeName === 'java.sql.Date') {
+      literal = toTimestampLiteral(dateTime(time), timeZone);
+    } else if (typeof value === 'number') {
+      literal = String(value);
+    } else {
+      literal = quoteLiteral(value);
+    }
+    latest = { time, literal };
+  });
+
+  return latest;
+}
+/**
+ * This method restricts an SQL query to the rows that are
+ * not older than the provided position of the time column;
+ * rows with the time of the position are requested again,
+ * as further rows with this time may have been added.
+ */
+export function newerThan(sql: string, timeColumn: string, position: StreamPosition): string {
+  return `SELECT * FROM (${sql}) WHERE ${timeColumn} >= ${position.literal}`;
+}
+/*
+ * A helper method to count the rows of a stream frame with
+ * the provided time, by their values; they are found at the
+ * tail of the frame, as later polls only append newer rows.
+ */
+function appendedRows(circular: CircularDataFrame, timeIndex: number, since?: number): Map<string, number> {
+  const appended = new Map<string, number>();
+  if (timeIndex === -1 || since === undefined) {
+    return appended;
+  }
+
+  for (let i = circular.length - 1; i >= 0; i--) {
+    const time = circular.fields[timeIndex].values.get(i);
+    if (time < since) {
+      break;
+    }
+    if (time === since) {
+      const key = JSON.stringify(circular.fields.map((field) => field.values.get(i)));
+      appended.set(key, (appended.get(key) || 0) + 1);
+    }
+  }
+  return appended;
+}
+/**
+ * This method appends the rows of the provided frames to the
+ * bounded (circular) frames of a stream; the frames of a stream
+ * are identified by their fields, i.e. names and labels, as a
+ * query that is grouped by columns results in multiple series.
+ *
+ * Rows with the time of the previous position (epoch millis)
+ * that were already appended are skipped.
+ */
+export function appendToStream(
+  stream: Map<string, CircularDataFrame>,
+  frames: MutableDataFrame[],
+  capacity: number,
+  since?: number
+): CircularDataFrame[] {
+  frames.forEach((frame) => {
+    const id = frame.fields.map((field) => `${field.name}${JSON.stringify(field.labels || {})}`).join('|');
+
+    let circular = stream.get(id);
+    if (circular === undefined) {
+      const created = new CircularDataFrame({ append: 'tail', capacity });
+      created.refId = frame.refId;
+      created.name = frame.name;
+      frame.fields.forEach((field) => {
+        created.addField({ name: field.name, type: field.type, labels: field.labels, config: field.config });
+      });
+
+      stream.set(id, created);
+      circular = created;
+    }
+
+    circular.meta = frame.meta;
+
+    const timeIndex = frame.fields.findIndex((field) => field.type === FieldType.time);
+    const appended = appendedRows(circular, timeIndex, since);
+    for (let i = 0; i < frame.length; i++) {
+      const row = frame.fields.map((field) => field.values.get(i));
+      if (timeIndex !== -1 && row[timeIndex] === since) {
+        const key = JSON.stringify(row);
+        const count = appended.get(key) || 0;
+        if (count > 0) {
+          appended.set(key, count - 1);
+          continue;
+        }
+      }
+      circular.appendRow(row);
+    }
+  });
+
+  return Array.from(stream.values());
+}
@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { DateTime, dateTimeFormat, dateTimeParse } from '@grafana/data';
+
+/**
+ * Apache Ignite timestamps do not carry time zone
+ * information; by default, they are interpreted
+ * as UTC.
+ */
+export const DEFAULT_TIME_ZONE = 'utc';
+/**
+ * The format of zone-less Apache Ignite timestamps.
+ *
+ * Example: 2018-02-18 01:01:01.0
+ */
+export const TIMESTAMP_FORMAT = 'YYYY-MM-DD HH:mm:ss.SSS';
+/**
+ * This method converts a time value retrieved from Apache
+ * Ignite into epoch milliseconds; zone-less timestamps are
+ * interpreted in the provided server time zone.
+ */
+export function toEpochMillis(value: any, timeZone?: string): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const text = String(value);
+  if (/^\d+$/.test(text)) {
+    return Number(text);
+  }
+  /*
+   * Timestamps and dates in their SQL representation,
+   * e.g. 2018-02-18 01:01:01.0 or 2018-01-01
+   */
+  if (/^\d{4}-\d{2}-\d{2}(\s\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/.test(text)) {
+    const time = dateTimeParse(text, {
+      timeZone: timeZone || DEFAULT_TIME_ZONE,
+      format: TIMESTAMP_FORMAT,
+    });
+    return time.isValid() ? time.valueOf() : null;
+  }
+  /*
+   * Any other representation, e.g. ISO 8601 timestamps
+   * with offset, is left to the browser.
+   */
+  const millis = Date.parse(text);
+  return isNaN(millis) ? null : millis;
+}
+/**
+ * This method renders a time as zone-less Apache Ignite
+ * timestamp in the provided server time zone.
+ */
+export function toServerTime(time: DateTime, timeZone?: string): string {
+  return dateTimeFormat(time, {
+    timeZone: timeZone || DEFAULT_TIME_ZONE,
+    format: TIMESTAMP_FORMAT,
+  });
+}
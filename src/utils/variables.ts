@@ -0,0 +1,100 @@
+/*
+ * Copyright (c) 2019 - 2021 Dr. Krusche & Partner PartG. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not
+ * use this file except in compliance with the License. You may obtain a copy of
+ * the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ *
+ * @author Stefan Krusche, Dr. Krusche & Partner PartG
+ *
+ */
+import { ScopedVars } from '@grafana/data';
+import { getTemplateSrv } from '@grafana/runtime';
+import { IgniteQueryParameter, ParameterSourceValue } from '../types';
+
+/**
+ * This method renders a value as an SQL string literal;
+ * single quotes are escaped by doubling them.
+ *
+ * Example: O'Brien -> 'O''Brien'
+ */
+export function quoteLiteral(value: any): string {
+  return "'" + String(value).replace(/'/g, "''") + "'";
+}
+/**
+ * The format function that is used to render the values
+ * of dashboard variables in an Apache Ignite SQL query.
+ *
+ * Multi-value and `All` variables are rendered as a list
+ * of quoted literals, that can be used in an `IN (...)`
+ * clause, e.g. region IN ($region) -> region IN ('eu','us').
+ * An empty selection is rendered as `NULL`, which matches
+ * no rows, rather than the invalid `IN ()`.
+ */
+export function formatSqlVariable(value: string | string[] | number, variable: any): string | number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    /*
+     * A single value is quoted only, if the variable
+     * supports multiple values; otherwise it is used
+     * as is to also support numeric values.
+     */
+    if (variable.multi || variable.includeAll) {
+      return quoteLiteral(value);
+    }
+    return value;
+  }
+
+  if (value.length === 0) {
+    return 'NULL';
+  }
+  return value.map((v) => quoteLiteral(v)).join(',');
+}
+/**
+ * This method replaces the dashboard variables in
+ * an SQL query.
+ */
+export function interpolateSql(sql: string, scopedVars?: ScopedVars): string {
+  return getTemplateSrv().replace(sql, scopedVars, formatSqlVariable);
+}
+/**
+ * This method replaces the dashboard variables in a
+ * plain value such as the name of a cache.
+ */
+export function interpolateValue(value: string, scopedVars?: ScopedVars): string {
+  return getTemplateSrv().replace(value, scopedVars);
+}
+/**
+ * This method replaces the dashboard variables in a
+ * comma-separated list of values, e.g. a list of keys;
+ * multi-value variables are expanded into the list.
+ */
+export function interpolateList(value: string, scopedVars?: ScopedVars): string {
+  return getTemplateSrv().replace(value, scopedVars, 'csv');
+}
+/**
+ * This method replaces the dashboard variables in the
+ * values of variable parameters; the values are bound
+ * as is, rather than rendered as SQL literals.
+ */
+export function interpolateParameters(
+  parameters: IgniteQueryParameter[],
+  scopedVars?: ScopedVars
+): IgniteQueryParameter[] {
+  return parameters.map((parameter) => {
+    if (parameter.source !== ParameterSourceValue.VARIABLE) {
+      return parameter;
+    }
+    return { ...parameter, value: interpolateValue(parameter.value || '', scopedVars) };
+  });
+}